@@ -12,4 +12,314 @@ describe("Smart Dynamic Checklist", () => {
     cy.contains("Runner mode").click()
     cy.contains("Checklist runner")
   })
+
+  it("migrates a legacy single checklist into the library", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([{ id: "legacy-1", title: "Legacy step", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" }])
+        )
+      }
+    })
+    cy.get('[aria-label="Switch checklist"]').should("contain", "Default")
+    cy.get('input[value="Legacy step"]').should("exist")
+  })
+
+  it("creates and switches between checklists", () => {
+    cy.visit("/", { onBeforeLoad: win => win.localStorage.clear() })
+    cy.get('[aria-label="Switch checklist"]').click()
+    cy.get('input[placeholder="New checklist name"]').type("Acme onboarding{enter}")
+    cy.get('[aria-label="Switch checklist"]').should("contain", "Acme onboarding")
+    cy.contains("+ Add Step").click()
+    cy.get('input[placeholder="Step title"]').first().type("Acme step")
+    cy.get('[aria-label="Switch checklist"]').click()
+    cy.contains("Default").click()
+    cy.get('input[value="Acme step"]').should("not.exist")
+  })
+
+  it("merges a change saved by another tab", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([{ id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" }])
+        )
+      }
+    })
+    cy.get('input[value="Create company"]').should("exist")
+    cy.window().then(win => {
+      const library = JSON.parse(win.localStorage.getItem("smart-checklist-library-v1")!)
+      library.checklists[0].items[0].title = "Create legal entity"
+      library.checklists[0].updatedAt = new Date().toISOString()
+      const newValue = JSON.stringify(library)
+      win.localStorage.setItem("smart-checklist-library-v1", newValue)
+      win.dispatchEvent(new win.StorageEvent("storage", { key: "smart-checklist-library-v1", newValue }))
+    })
+    cy.get('input[value="Create legal entity"]').should("exist")
+    cy.contains("Updated from another tab")
+  })
+
+  it("shows a teammate's edit from the live session", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([{ id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" }])
+        )
+      }
+    })
+    // Joins once server sync has saved the checklist
+    cy.get('[data-presence="live"]', { timeout: 10000 }).should("exist")
+    cy.window().then(win => {
+      const library = JSON.parse(win.localStorage.getItem("smart-checklist-library-v1")!)
+      cy.request("POST", `/api/collab/${library.activeId}`, {
+        clientId: "teammate",
+        kind: "ops",
+        batch: 1,
+        ops: [{ type: "item-set", itemId: "a", fields: { title: "Create legal entity" } }]
+      })
+    })
+    cy.get('input[value="Create legal entity"]').should("exist")
+  })
+
+  it("reports a dependency cycle and fixes it", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "a", title: "Create company", dependsOn: ["b"], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Import chart of accounts", dependsOn: ["a"], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "c", title: "Post opening balances", dependsOn: ["b"], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    cy.contains("2 dependency problems")
+    cy.contains('Dependency cycle: "Create company" → "Import chart of accounts" → "Create company"')
+    cy.contains('"Post opening balances" can never unlock')
+    cy.contains("button", "Fix automatically").click()
+    cy.contains("dependency problem").should("not.exist")
+  })
+
+  it("skips the branch a question's answer rules out", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "q", title: "Multi-currency?", dependsOn: [], answers: ["Yes", "No"], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "a", title: "Set up currencies", dependsOn: [], conditions: [{ stepId: "q", equals: "Yes" }], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Set the base currency", dependsOn: [], conditions: [{ stepId: "q", equals: "No" }], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    cy.contains("Runner mode").click()
+    cy.get('[data-runner-item-id="a"]').should("not.exist")
+    cy.get('[data-runner-item-id="b"]').should("not.exist")
+    cy.get('[data-runner-item-id="q"] [data-answers]').contains("button", "No").click()
+    cy.get('[data-runner-item-id="b"]').should("exist")
+    cy.get('[data-runner-item-id="a"]').should("not.exist")
+    cy.contains("1 of 2 · 1 skipped")
+  })
+
+  it("draws dependencies in graph mode", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Import chart of accounts", dependsOn: ["a"], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    cy.contains("button", "Graph").click()
+    cy.get('[data-graph-node="a"]').should("exist")
+    cy.get('[data-graph-edge="a->b"]').click()
+    cy.get('[data-graph-edge="a->b"]').should("not.exist")
+  })
+
+  it("undoes a deleted step from the toast and redoes it from the keyboard", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Import chart of accounts", dependsOn: ["a"], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    cy.get('[data-item-id="a"] [aria-label="Delete step"]').click()
+    cy.get('[data-item-id="a"]').should("not.exist")
+    cy.get("[data-toast-undo]").click()
+    cy.get('input[value="Create company"]').should("exist")
+    cy.get("body").type("{ctrl}{shift}z")
+    cy.get('[data-item-id="a"]').should("not.exist")
+  })
+
+  it("fills template variables in when a run starts", () => {
+    cy.visit("/", { onBeforeLoad: win => win.localStorage.clear() })
+    cy.get('[data-starter="erp-onboarding"]').click()
+    cy.get('input[value="Kickoff call with {{clientName}}"]').should("exist")
+    cy.contains("Runner mode").click()
+    cy.get('[data-variable-input="clientName"]').type("Acme")
+    cy.contains("button", "Start run").click()
+    cy.get("[data-run-values]").should("not.exist")
+    cy.contains("Kickoff call with Acme")
+  })
+
+  it("merges an imported version step by step", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Invite users", dependsOn: ["a"], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    const imported = [
+      { id: "a", title: "Create company", dependsOn: [] },
+      { id: "other-b", title: "Invite users", description: "Send invites to the whole team", dependsOn: ["a"] },
+      { id: "c", title: "Configure SSO", dependsOn: ["other-b"] }
+    ]
+    cy.contains("button", /^Import$/).click()
+    cy.get('textarea[placeholder="Paste JSON here"]').type(JSON.stringify(imported), { parseSpecialCharSequences: false, delay: 0 })
+    cy.contains("button", "Import Checklist").click()
+    cy.contains("button", "Merge...").click()
+    cy.get("[data-import-merge]").should("contain", "1 added · 0 removed · 1 changed · 1 unchanged")
+    cy.get('[data-merge-key="b"] [data-merge-field="description"] [data-side="current"]').click()
+    cy.contains("button", /^Merge$/).click()
+    cy.get('input[value="Configure SSO"]').should("exist")
+    cy.get('[data-item-id="b"] textarea').first().should("have.value", "")
+  })
+
+  it("previews a share link and imports it as a new checklist", () => {
+    const doc = {
+      format: "smart-checklist",
+      schemaVersion: 8,
+      name: "Shared onboarding",
+      exportedAt: "2024-05-01T09:30:00.000Z",
+      items: [
+        { id: "a", title: "Sign contract", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" },
+        { id: "b", title: "Review contract", dependsOn: ["a"], createdAt: "2024-01-01T00:00:00.000Z" }
+      ]
+    }
+    cy.visit("/", { onBeforeLoad: win => win.localStorage.clear() })
+    cy.window().then(async win => {
+      const stream = new win.Blob([JSON.stringify(doc)]).stream().pipeThrough(new win.CompressionStream("deflate-raw"))
+      const bytes = new Uint8Array(await new win.Response(stream).arrayBuffer())
+      win.location.hash = `share=${win.btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")}`
+    })
+    cy.get("[data-share-preview]").should("contain", "Shared onboarding").and("contain", "after Sign contract")
+    cy.contains("button", "Import as new").click()
+    cy.get('[aria-label="Switch checklist"]').should("contain", "Shared onboarding")
+    cy.get('input[value="Review contract"]').should("exist")
+  })
+
+  it("generates steps offline with the mock AI provider", () => {
+    cy.visit("/", { onBeforeLoad: win => win.localStorage.clear() })
+    cy.contains("button", "AI Generate").click()
+    cy.get('[aria-label="AI provider"]').select("mock")
+    cy.get("textarea").first().type("ERP rollout")
+    cy.contains("button", "Generate Checklist").click()
+    cy.get("[data-review-tray]").should("contain", "6 of 6 accepted")
+    cy.contains("button", "Add 6 steps").click()
+    cy.get('input[value="Gather requirements"]').should("exist")
+    cy.get('input[value="Go live"]').should("exist")
+  })
+
+  it("keeps streamed steps when generation fails halfway", () => {
+    const events = [
+      'event: step\ndata: {"key":"s1","title":"Create company","dependsOn":[]}\n\n',
+      'event: step\ndata: {"key":"s2","title":"Invite users","dependsOn":["s1"]}\n\n',
+      'event: error\ndata: {"error":"The Mock (offline) reply broke off (terminated)"}\n\n'
+    ]
+    cy.intercept("POST", "/api/generate", { headers: { "content-type": "text/event-stream" }, body: events.join("") })
+    cy.visit("/", { onBeforeLoad: win => win.localStorage.clear() })
+    cy.contains("button", "AI Generate").click()
+    cy.get('[aria-label="AI provider"]').select("mock")
+    cy.get("textarea").first().type("ERP rollout")
+    cy.contains("button", "Generate Checklist").click()
+    cy.get("[data-review-tray]").should("contain", "2 of 2 accepted")
+    cy.get("[data-generation-report]").should("contain", "Stopped after 2 steps")
+  })
+
+  it("flags generated duplicates in the review tray", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([{ id: "a", title: "Go live", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" }])
+        )
+      }
+    })
+    cy.contains("button", "AI Generate").click()
+    cy.get('[aria-label="AI provider"]').select("mock")
+    cy.get("textarea").first().type("ERP rollout")
+    cy.contains("button", "Generate Checklist").click()
+    cy.get('[data-suggestion="Go live"] [data-duplicate]').should("exist")
+    cy.contains("button", "Add 5 steps").click()
+    cy.get('input[value="Go live"]').should("have.length", 1)
+  })
+
+  it("applies an approved AI dependency suggestion", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem("smart-checklist-ai-v1", JSON.stringify({ provider: "mock", model: "" }))
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Import chart of accounts", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    cy.contains("button", "AI: Suggest dependencies").click()
+    cy.get('[data-suggested-edge="a->b"]').contains("button", "Approve").click()
+    cy.contains("button", "Apply 1 dependency").click()
+    cy.contains("button", "Graph").click()
+    cy.get('[data-graph-edge="a->b"]').should("exist")
+  })
+
+  it("previews an AI split before replacing the step", () => {
+    cy.visit("/", {
+      onBeforeLoad(win) {
+        win.localStorage.clear()
+        win.localStorage.setItem("smart-checklist-ai-v1", JSON.stringify({ provider: "mock", model: "" }))
+        win.localStorage.setItem(
+          "smart-checklist-items-v1",
+          JSON.stringify([
+            { id: "a", title: "Create company", dependsOn: [], createdAt: "2024-01-01T00:00:00.000Z" },
+            { id: "b", title: "Set up payroll", dependsOn: ["a"], createdAt: "2024-01-01T00:00:00.000Z" }
+          ])
+        )
+      }
+    })
+    cy.get('[data-item-id="b"] [data-step-ai-actions]').contains("button", "Split").click()
+    cy.get('[data-step-ai-preview="split"]').should("contain", "Replaces this step with 3 steps")
+    cy.get('input[value="Set up payroll"]').should("exist")
+    cy.get('[data-step-ai-preview="split"]').contains("button", "Apply").click()
+    cy.get('input[value="Set up payroll"]').should("not.exist")
+    cy.get('input[value="Check: Set up payroll"]').should("exist")
+  })
 })
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { sanitizeChecklist } from "@/lib/library"
+import { getChecklistStore, WriteResult } from "@/lib/server/checklist-store"
+
+export const dynamic = "force-dynamic"
+
+type RouteContext = { params: { id: string } }
+
+function writeResponse(result: WriteResult, status = 200) {
+  if (result.ok) {
+    return NextResponse.json({ checklist: result.checklist }, { status })
+  }
+  if (result.reason === "conflict") {
+    return NextResponse.json(
+      { error: "Checklist was changed by someone else", current: result.current },
+      { status: 409 }
+    )
+  }
+  return NextResponse.json({ error: "Checklist not found" }, { status: 404 })
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const checklist = await getChecklistStore().get(params.id)
+  if (!checklist) {
+    return NextResponse.json({ error: "Checklist not found" }, { status: 404 })
+  }
+  return NextResponse.json({ checklist })
+}
+
+export async function PUT(req: Request, { params }: RouteContext) {
+  const body = await req.json().catch(() => null)
+  // The id comes from the URL, but only once there's a checklist to put it on
+  const raw = body?.checklist
+  const checklist = raw && typeof raw === "object" && !Array.isArray(raw) ? sanitizeChecklist({ ...raw, id: params.id }) : null
+  const revision = body?.revision
+
+  if (!checklist) {
+    return NextResponse.json({ error: "Missing or invalid checklist" }, { status: 400 })
+  }
+  if (typeof revision !== "number") {
+    return NextResponse.json({ error: "Missing revision" }, { status: 400 })
+  }
+
+  return writeResponse(await getChecklistStore().update(checklist, revision))
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const revisionParam = new URL(req.url).searchParams.get("revision")
+  const revision = revisionParam === null ? undefined : Number(revisionParam)
+
+  if (revision !== undefined && Number.isNaN(revision)) {
+    return NextResponse.json({ error: "Invalid revision" }, { status: 400 })
+  }
+
+  return writeResponse(await getChecklistStore().delete(params.id, revision))
+}
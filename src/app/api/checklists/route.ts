@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { sanitizeChecklist } from "@/lib/library"
+import { getChecklistStore } from "@/lib/server/checklist-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const checklists = await getChecklistStore().list()
+  return NextResponse.json({ checklists })
+}
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null)
+  const checklist = sanitizeChecklist(body?.checklist)
+
+  if (!checklist) {
+    return NextResponse.json({ error: "Missing or invalid checklist" }, { status: 400 })
+  }
+
+  const result = await getChecklistStore().create(checklist)
+  if (!result.ok) {
+    if (result.reason === "conflict") {
+      return NextResponse.json({ error: "A checklist with this id already exists", current: result.current }, { status: 409 })
+    }
+    return NextResponse.json({ error: "Checklist not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ checklist: result.checklist }, { status: 201 })
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server"
+import { sanitizePresence } from "@/lib/collaboration"
+import { sanitizeChecklist } from "@/lib/library"
+import { getCollaborationHub } from "@/lib/server/collaboration-hub"
+import { formatServerSentEvent } from "@/lib/sse"
+
+export const dynamic = "force-dynamic"
+
+// Proxies close event streams that stay silent for too long
+const KEEPALIVE_MS = 15000
+
+type RouteContext = { params: { id: string } }
+
+/**
+ * The live session's event stream: a `snapshot` of the checklist first, then
+ * every `op` batch in order, `presence` whenever someone arrives, leaves or
+ * moves, and `saved` once the copy is written to the store.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const url = new URL(req.url)
+  const clientId = url.searchParams.get("clientId")
+  if (!clientId) {
+    return NextResponse.json({ error: "Missing clientId" }, { status: 400 })
+  }
+  const hub = getCollaborationHub()
+  if (!hub.has(params.id)) {
+    return NextResponse.json({ error: "No live session for this checklist" }, { status: 404 })
+  }
+
+  const presence = sanitizePresence(Object.fromEntries(url.searchParams), clientId)
+  const encoder = new TextEncoder()
+  let close = () => {}
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text))
+        } catch {
+          close()
+        }
+      }
+      const leave = hub.connect(params.id, presence, (event, data) => write(formatServerSentEvent(event, data)))
+      const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS)
+      close = () => {
+        clearInterval(keepalive)
+        leave?.()
+        close = () => {}
+      }
+      if (!leave) {
+        close()
+        controller.close()
+      }
+      req.signal.addEventListener("abort", () => close(), { once: true })
+    },
+    cancel() {
+      close()
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  })
+}
+
+/**
+ * `join` opens the session with the posted checklist if none is running and
+ * answers whether the session started from it (`seeded`), `ops` posts a numbered batch of edits, and `presence` says which step this
+ * browser is on.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const body = await req.json().catch(() => null)
+  const clientId = typeof body?.clientId === "string" && body.clientId ? body.clientId : null
+  if (!clientId) {
+    return NextResponse.json({ error: "Missing clientId" }, { status: 400 })
+  }
+  const hub = getCollaborationHub()
+
+  switch (body.kind) {
+    case "join": {
+      const raw = body.checklist
+      const checklist = raw && typeof raw === "object" && !Array.isArray(raw) ? sanitizeChecklist({ ...raw, id: params.id }) : null
+      if (!checklist) {
+        return NextResponse.json({ error: "Missing or invalid checklist" }, { status: 400 })
+      }
+      const seeded = await hub.join(checklist)
+      return NextResponse.json({ ok: true, seeded })
+    }
+    case "ops": {
+      if (typeof body.batch !== "number") {
+        return NextResponse.json({ error: "Missing batch number" }, { status: 400 })
+      }
+      const result = hub.apply(params.id, clientId, body.batch, body.ops)
+      return result.ok
+        ? NextResponse.json({ seq: result.seq })
+        : NextResponse.json({ error: result.error }, { status: result.status })
+    }
+    case "presence":
+      return hub.setPresence(params.id, sanitizePresence(body, clientId))
+        ? NextResponse.json({ ok: true })
+        : NextResponse.json({ error: "Not connected to this session" }, { status: 404 })
+    default:
+      return NextResponse.json({ error: "Unknown request kind" }, { status: 400 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { sanitizeChecklistItems } from "@/lib/checklist"
+import {
+  buildDependencyPrompt,
+  dependencySuggestionSchema,
+  dependencySuggestionShape,
+  parseDependencySuggestions
+} from "@/lib/ai-dependencies"
+import { completeWithRetry, resolveAiRequest } from "@/lib/server/ai-request"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null)
+  const { items } = sanitizeChecklistItems(Array.isArray(body?.items) ? body.items : [])
+  if (items.length < 2) {
+    return NextResponse.json({ error: "Need at least two steps to suggest dependencies" }, { status: 400 })
+  }
+
+  const request = resolveAiRequest(body)
+  if (request instanceof NextResponse) return request
+
+  return completeWithRetry(
+    request,
+    buildDependencyPrompt(items),
+    { schema: dependencySuggestionSchema, shape: dependencySuggestionShape },
+    text => parseDependencySuggestions(text, items)
+  )
+}
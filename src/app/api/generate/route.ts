@@ -1,71 +1,35 @@
 import { NextResponse } from "next/server"
+import { buildChecklistPrompt, generatedChecklistSchema, generatedChecklistShape, parseGeneratedChecklist } from "@/lib/ai"
+import { defaultAiProvider, describeAiProviders } from "@/lib/server/ai-providers"
+import { completeWithRetry, resolveAiRequest, streamChecklist } from "@/lib/server/ai-request"
 
-type GeminiRequestBody = {
-  apikey: string
-  prompt: string
-  existing: string[]
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  return NextResponse.json({ providers: describeAiProviders(), defaultProvider: defaultAiProvider() })
 }
 
 export async function POST(req: Request) {
-  const body = (await req.json()) as GeminiRequestBody
-  const { apikey, prompt, existing } = body
-
-  if (!apikey) {
-    return NextResponse.json({ error: "Missing API key" }, { status: 400 })
+  const body = await req.json().catch(() => null)
+  const prompt = typeof body?.prompt === "string" ? body.prompt.trim() : ""
+  if (!prompt) {
+    return NextResponse.json({ error: "Missing prompt" }, { status: 400 })
   }
 
-  const endpoint = `https://generativelanguage.googleapis.com/v1/models/gemini-2.5-flash:generateContent?key=${apikey}`;
-
+  const request = resolveAiRequest(body)
+  if (request instanceof NextResponse) return request
 
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            {
-              text: [
-                "You are helping an implementation consultant create a concise onboarding checklist.",
-                "Return 5-8 bullet points, each describing a single actionable step.",
-                "Do not number them, just bullets. Prefer accounting/ERP-style phrasing when relevant.",
-                "",
-                "User prompt:",
-                prompt
-              ].join("\n")
-            }
-          ]
-        }
-      ]
-    })
-  })
+  const existing = Array.isArray(body?.existing) ? body.existing.filter((t: unknown) => typeof t === "string") : []
+  const fullPrompt = buildChecklistPrompt(prompt, existing)
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    return NextResponse.json({ error: errorText || "Gemini error" }, { status: response.status })
+  // Browsers asking for an event stream get steps as they're generated
+  if (req.headers.get("accept")?.includes("text/event-stream")) {
+    return streamChecklist(request, fullPrompt, req.signal)
   }
-
-  const json = await response.json()
-
-  const rawText: string =
-    json?.candidates?.[0]?.content?.parts?.[0]?.text ?? ""
-
-  const lines = rawText
-    .split(/\r?\n/)
-    .map((line: string) => line.replace(/^[-*•]\s*/, "").trim())
-    .filter((line: string) => line.length > 0)
-
-  const unique = Array.from(
-    new Set(
-      lines.map((l: string) => l.replace(/^\d+\.\s*/, "").trim())
-    )
+  return completeWithRetry(
+    request,
+    fullPrompt,
+    { schema: generatedChecklistSchema, shape: generatedChecklistShape },
+    parseGeneratedChecklist
   )
-
-  const filtered = unique.filter((item: string) => !existing.includes(item))
-
-  const items = filtered.slice(0, 8)
-
-  return NextResponse.json({ items })
 }
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { sanitizeChecklistItems } from "@/lib/checklist"
+import {
+  buildStepActionPrompt,
+  isStepAiAction,
+  parseStepActionReply,
+  stepActionSchemas,
+  stepActionShapes,
+  stepActionUnavailable
+} from "@/lib/ai-step-actions"
+import { completeWithRetry, resolveAiRequest } from "@/lib/server/ai-request"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null)
+  const action = body?.action
+  if (!isStepAiAction(action)) {
+    return NextResponse.json({ error: `Unknown step action "${action}"` }, { status: 400 })
+  }
+
+  const { items } = sanitizeChecklistItems(Array.isArray(body?.items) ? body.items : [])
+  const item = items.find(i => i.id === body?.itemId)
+  if (!item) {
+    return NextResponse.json({ error: "Step not found in the checklist" }, { status: 400 })
+  }
+  const unavailable = stepActionUnavailable(action, item, items)
+  if (unavailable) {
+    return NextResponse.json({ error: unavailable }, { status: 400 })
+  }
+
+  const request = resolveAiRequest(body)
+  if (request instanceof NextResponse) return request
+
+  return completeWithRetry(
+    request,
+    buildStepActionPrompt(action, item.id, items),
+    { schema: stepActionSchemas[action], shape: stepActionShapes[action] },
+    text => parseStepActionReply(action, text)
+  )
+}
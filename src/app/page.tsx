@@ -1,107 +1,211 @@
 'use client'
 
-import { useEffect, useMemo, useState } from "react"
+import { SetStateAction, useEffect, useMemo, useRef, useState } from "react"
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors } from "@dnd-kit/core"
-import { arrayMove, SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable"
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
-import { ChecklistItem, RunnerState } from "@/types/checklist"
+import { ChecklistItem, ChecklistLibrary, ChecklistRun, StepAiAction, TemplateVariable } from "@/types/checklist"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { cn } from "@/lib/utils"
+import { createEmptyItem, sanitizeChecklistItems } from "@/lib/checklist"
+import { ChecklistDocument, createChecklistDocument, documentFileName, parseChecklistDocument } from "@/lib/checklist-document"
+import { checklistToMarkdown, parseMarkdownChecklist } from "@/lib/markdown"
+import { checklistToCsv, csvRowsToDocument, CsvColumnMapping, guessCsvMapping, parseCsv } from "@/lib/csv"
+import { describeGraphIssue, repairDependencyGraph, validateDependencyGraph, wouldCreateCycle } from "@/lib/graph"
+import { evaluateSteps, removeStepReferences } from "@/lib/dependencies"
+import { areNested, descendantIds, flattenTree, indentItem, moveItem, outdentItem } from "@/lib/tree"
+import { computeCriticalPath } from "@/lib/critical-path"
+import {
+  AiProviderId,
+  AiProviderInfo,
+  aiProviderIds,
+  aiProviderLabels,
+  GenerationReport,
+  isAiProviderId,
+  normalizeGeneratedSteps
+} from "@/lib/ai"
+import { readServerSentEvents } from "@/lib/sse"
+import {
+  applyImportMerge,
+  defaultMergeChoices,
+  diffChecklists,
+  ItemDiff,
+  keepProgressFor,
+  MergeChoices,
+  unchangedStepIds
+} from "@/lib/import-merge"
+import { createSuggestions, mergeModeLabels, MergeMode, mergeSuggestions, Suggestion } from "@/lib/ai-merge"
+import { applyDependencySuggestions, DependencySuggestion } from "@/lib/ai-dependencies"
+import {
+  applyStepAction,
+  StepActionResult,
+  stepActionUnavailable,
+  stepAiActionHints,
+  stepAiActionLabels,
+  stepAiActions
+} from "@/lib/ai-step-actions"
+import {
+  describeDue,
+  dueDateKey,
+  formatDateKey,
+  formatDuration,
+  formatEstimate,
+  isAssignedTo,
+  isDueThisWeek,
+  isOverdue,
+  projectFinishDate,
+  RunnerFilter,
+  runnerFilterLabels
+} from "@/lib/schedule"
+import {
+  createChecklist,
+  duplicateChecklist,
+  loadLibrary,
+  removeChecklist,
+  uniqueName,
+  updateChecklist
+} from "@/lib/library"
+import { useServerSync } from "@/lib/use-server-sync"
+import { useTabSync } from "@/lib/use-tab-sync"
+import { useCollaboration } from "@/lib/use-collaboration"
+import { Presence, PresenceActivity } from "@/lib/collaboration"
+import {
+  emptyHistory,
+  HistoryEntry,
+  recordChange,
+  redoChange,
+  SnapshotField,
+  takeSnapshot,
+  undoChange,
+  UndoHistory
+} from "@/lib/history"
+import { fillItem, mergeVariables, needsValues, variableLabel } from "@/lib/template"
+import { instantiateStarterTemplate, StarterTemplate } from "@/lib/starter-templates"
+import { createShareLink, isShareFragment, readShareFragment, SHARE_LINK_MAX_LENGTH, shareLinkSizeWarning } from "@/lib/share-link"
+import {
+  answerStep,
+  auditLogToCsv,
+  completeSteps,
+  createRun,
+  runStatus,
+  runStatusLabels,
+  setCompletionNote,
+  syncParentCompletion,
+  uncompleteSteps
+} from "@/lib/runs"
+import { ChecklistLibraryPanel } from "@/components/checklist-library"
+import { RunPanel } from "@/components/run-panel"
+import { RunnerItemCard } from "@/components/runner-item-card"
+import { PresenceList, StepPresence } from "@/components/presence"
+import { RunValuesForm } from "@/components/run-values-form"
+import { StarterGallery } from "@/components/starter-gallery"
+import { TemplateVariablesEditor } from "@/components/template-variables-editor"
+import { SharedChecklistPreview } from "@/components/shared-checklist-preview"
+import { DependencyGraph } from "@/components/dependency-graph"
+import { CsvImportMapping } from "@/components/csv-import-mapping"
+import { StepLogicEditor } from "@/components/step-logic-editor"
+import { StepScheduleEditor } from "@/components/step-schedule-editor"
+import { AiReviewTray } from "@/components/ai-review-tray"
+import { DependencySuggestions } from "@/components/dependency-suggestions"
+import { StepAiPreview } from "@/components/step-ai-preview"
+import { ImportMergeReview } from "@/components/import-merge-review"
 
-type Mode = "builder" | "runner"
+type Mode = "builder" | "runner" | "graph"
 type Theme = "light" | "dark"
+type FileFormat = "json" | "markdown" | "csv"
+type ImportStrategy = "replace" | "merge"
+type HistoryChange = { label: string; group?: string }
+type StepAiPreviewState = { itemId: string; result: StepActionResult; report: GenerationReport | null }
 
-const STORAGE_KEY = "smart-checklist-items-v1"
-const RUNNER_KEY = "smart-checklist-runner-v1"
 const THEME_KEY = "smart-checklist-theme-v1"
+const USER_NAME_KEY = "smart-checklist-user-v1"
+const AI_SETTINGS_KEY = "smart-checklist-ai-v1"
 
-function createEmptyItem(): ChecklistItem {
-  return {
-    id: crypto.randomUUID(),
-    title: "",
-    description: "",
-    dependsOn: [],
-    createdAt: new Date().toISOString()
-  }
+// Keys are stored per provider; Gemini keeps the key name older versions used
+function apiKeyStorageKey(provider: AiProviderId) {
+  return `${provider}-api-key`
 }
 
-function sanitizeChecklistItems(raw: unknown[]): { items: ChecklistItem[]; messages: string[] } {
-  const messages: string[] = []
-  const seen = new Set<string>()
-
-  const items: ChecklistItem[] = raw
-    .map((entry, index) => {
-      if (!entry || typeof entry !== "object") {
-        messages.push(`Skipped entry ${index}: not an object`)
-        return null
-      }
-
-      const candidateId = typeof (entry as any).id === "string" && (entry as any).id.trim()
-      let id = candidateId || crypto.randomUUID()
-      if (seen.has(id)) {
-        const newId = `${id}-${crypto.randomUUID().slice(0, 8)}`
-        messages.push(`Duplicate id "${id}" at index ${index} replaced with "${newId}"`)
-        id = newId
-      }
-      seen.add(id)
-
-      const rawTitle = typeof (entry as any).title === "string" ? (entry as any).title.trim() : ""
-      const title = rawTitle || "Untitled step"
-      const description = typeof (entry as any).description === "string" ? (entry as any).description : undefined
-
-      const rawDependsOn = (entry as any).dependsOn
-      const dependsOn = Array.isArray(rawDependsOn)
-        ? Array.from(
-            new Set(
-              rawDependsOn
-                .filter((d: any) => typeof d === "string")
-                .map((d: string) => d.trim())
-                .filter(Boolean)
-                .filter(dep => dep !== id)
-            )
-          )
-        : []
-      if (rawDependsOn && !Array.isArray(rawDependsOn)) {
-        messages.push(`Entry "${title}" had invalid dependsOn; reset to []`)
-      }
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
 
-      const rawCreatedAt = typeof (entry as any).createdAt === "string" ? (entry as any).createdAt : ""
-      const createdAt = Number.isNaN(Date.parse(rawCreatedAt)) ? new Date().toISOString() : rawCreatedAt
-
-      return {
-        id,
-        title,
-        description,
-        dependsOn,
-        aiGenerated: Boolean((entry as any).aiGenerated),
-        createdAt
-      } satisfies ChecklistItem
-    })
-    .filter(Boolean) as ChecklistItem[]
+function branchingLabel(item: ChecklistItem) {
+  const parts = [
+    item.answers && `${item.answers.length} answers`,
+    item.anyOf?.length && `${item.anyOf.length} any-of`,
+    item.conditions?.length && `${item.conditions.length} conditions`
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(" · ") : "Add branching"
+}
 
-  return { items, messages }
+function scheduleLabel(item: ChecklistItem) {
+  const parts = [
+    item.assignee,
+    item.due && `due ${describeDue(item.due)}`,
+    item.estimateHours && formatEstimate(item.estimateHours)
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(" · ") : "Add owner & schedule"
 }
 
 function SortableItem({ 
   item, 
+  depth,
+  childCount,
+  collapsed,
   onChangeTitle, 
   onChangeDescription, 
   allItems, 
   onChangeDependencies,
-  onDelete 
+  onChangeLogic,
+  aiPreview,
+  aiBusyAction,
+  onAiAction,
+  onApplyAiPreview,
+  onDiscardAiPreview,
+  onToggleCollapse,
+  onIndent,
+  onOutdent,
+  onAddChild,
+  onDelete,
+  peers
 }: {
   item: ChecklistItem
+  depth: number
+  childCount: number
+  collapsed: boolean
   allItems: ChecklistItem[]
   onChangeTitle: (v: string) => void
   onChangeDescription: (v: string) => void
   onChangeDependencies: (deps: string[]) => void
+  onChangeLogic: (patch: Partial<ChecklistItem>) => void
+  aiPreview?: StepAiPreviewState
+  aiBusyAction?: StepAiAction
+  onAiAction: (action: StepAiAction) => void
+  onApplyAiPreview: () => void
+  onDiscardAiPreview: () => void
+  onToggleCollapse: () => void
+  onIndent?: () => void
+  onOutdent?: () => void
+  onAddChild: () => void
   onDelete: () => void
+  peers: Presence[]  // others in the live session who are on this step
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: item.id })
   const [showDependencies, setShowDependencies] = useState(false)
+  const [showLogic, setShowLogic] = useState(false)
+  const [showSchedule, setShowSchedule] = useState(false)
   
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -112,7 +216,7 @@ function SortableItem({
   const otherItems = allItems.filter(i => i.id !== item.id)
 
   return (
-    <div ref={setNodeRef} style={style} className="group" data-item-id={item.id}>
+    <div ref={setNodeRef} style={{ ...style, marginLeft: depth * 28 }} className="group" data-item-id={item.id} data-depth={depth}>
       <Card className={cn(
         "mb-3 border-[color:var(--border)] hover:border-[color:var(--border-strong)] transition-all",
         item.aiGenerated && "border-l-4 border-l-[color:var(--accent)]"
@@ -139,14 +243,33 @@ function SortableItem({
             {/* Content */}
             <div className="flex-1 space-y-3">
               <div className="flex items-center gap-2">
+                {childCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={onToggleCollapse}
+                    aria-label={collapsed ? "Expand sub-steps" : "Collapse sub-steps"}
+                    className="shrink-0 flex items-center gap-1 text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+                  >
+                    <svg width="12" height="12" viewBox="0 0 12 12" fill="none" className={cn("transition-transform", !collapsed && "rotate-90")}>
+                      <path d="M4.5 3L7.5 6L4.5 9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                    {childCount}
+                  </button>
+                )}
                 <Input
                   value={item.title}
                   onChange={e => onChangeTitle(e.target.value)}
                   placeholder="Step title"
                   className="flex-1 font-medium border-0 bg-transparent px-0 focus-visible:ring-0 focus-visible:ring-offset-0"
                 />
+                <StepPresence peers={peers} />
                 {item.aiGenerated && (
-                  <span className="shrink-0 text-[10px] font-medium rounded-full bg-[color:var(--accent-soft)] px-2 py-1 text-[color:var(--accent-strong)]">
+                  <span
+                    title={item.aiActions?.length
+                      ? `Changed by AI: ${item.aiActions.map(a => stepAiActionLabels[a].toLowerCase()).join(", ")}`
+                      : "Generated by AI"}
+                    className="shrink-0 text-[10px] font-medium rounded-full bg-[color:var(--accent-soft)] px-2 py-1 text-[color:var(--accent-strong)]"
+                  >
                     AI
                   </span>
                 )}
@@ -184,10 +307,22 @@ function SortableItem({
                     <div className="flex flex-wrap gap-2 pl-4">
                       {otherItems.map(target => {
                         const active = item.dependsOn.includes(target.id)
+                        // Adding this edge would close a loop; an already-active one is part of a loop.
+                        const cyclic = active
+                          ? wouldCreateCycle(allItems.map(i => i.id === item.id ? { ...i, dependsOn: i.dependsOn.filter(d => d !== target.id) } : i), item.id, target.id)
+                          : wouldCreateCycle(allItems, item.id, target.id)
                         return (
                           <button
                             key={target.id}
                             type="button"
+                            disabled={cyclic && !active}
+                            title={cyclic
+                              ? active
+                                ? "This dependency is part of a cycle. Click to remove it."
+                                : areNested(allItems, item.id, target.id)
+                                  ? "A step can't depend on its own parent or sub-steps"
+                                  : `"${target.title || "Untitled"}" already depends on this step`
+                              : undefined}
                             onClick={() => {
                               const next = active
                                 ? item.dependsOn.filter(id => id !== target.id)
@@ -196,9 +331,13 @@ function SortableItem({
                             }}
                             className={cn(
                               "text-xs px-2.5 py-1 rounded-full border transition-colors",
-                              active
-                                ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
-                                : "border-[color:var(--border)] text-[color:var(--text-dim)] hover:border-[color:var(--border-strong)]"
+                              active && cyclic
+                                ? "border-rose-500 bg-rose-50 dark:bg-rose-950/20 text-rose-600 dark:text-rose-400"
+                                : active
+                                  ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                                  : cyclic
+                                    ? "border-dashed border-[color:var(--border)] text-[color:var(--text-dim)] opacity-50 cursor-not-allowed"
+                                    : "border-[color:var(--border)] text-[color:var(--text-dim)] hover:border-[color:var(--border-strong)]"
                             )}
                           >
                             {target.title || "Untitled"}
@@ -209,6 +348,97 @@ function SortableItem({
                   )}
                 </div>
               )}
+
+              {/* Branching Toggle */}
+              <div className="space-y-2">
+                <button
+                  type="button"
+                  onClick={() => setShowLogic(!showLogic)}
+                  className="text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)] flex items-center gap-1"
+                >
+                  <svg 
+                    width="12" 
+                    height="12" 
+                    viewBox="0 0 12 12" 
+                    fill="none" 
+                    className={cn("transition-transform", showLogic && "rotate-90")}
+                  >
+                    <path d="M4.5 3L7.5 6L4.5 9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                  </svg>
+                  {branchingLabel(item)}
+                </button>
+
+                {showLogic && <StepLogicEditor item={item} allItems={allItems} onChange={onChangeLogic} />}
+              </div>
+
+              {/* Schedule Toggle */}
+              <div className="space-y-2">
+                <button
+                  type="button"
+                  onClick={() => setShowSchedule(!showSchedule)}
+                  className="text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)] flex items-center gap-1"
+                >
+                  <svg 
+                    width="12" 
+                    height="12" 
+                    viewBox="0 0 12 12" 
+                    fill="none" 
+                    className={cn("transition-transform", showSchedule && "rotate-90")}
+                  >
+                    <path d="M4.5 3L7.5 6L4.5 9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                  </svg>
+                  {scheduleLabel(item)}
+                </button>
+
+                {showSchedule && <StepScheduleEditor item={item} onChange={onChangeLogic} />}
+              </div>
+
+              {/* AI Actions */}
+              <div className="flex flex-wrap items-center gap-3 text-xs text-[color:var(--text-dim)]" data-step-ai-actions>
+                <span>AI:</span>
+                {stepAiActions.map(action => {
+                  const unavailable = stepActionUnavailable(action, item, allItems)
+                  return (
+                    <button
+                      key={action}
+                      type="button"
+                      onClick={() => onAiAction(action)}
+                      disabled={!!unavailable || !!aiBusyAction}
+                      title={unavailable ?? stepAiActionHints[action]}
+                      className="hover:text-[color:var(--text)] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-[color:var(--text-dim)]"
+                    >
+                      {aiBusyAction === action ? "Working..." : stepAiActionLabels[action]}
+                    </button>
+                  )
+                })}
+              </div>
+
+              {aiPreview && (
+                <StepAiPreview
+                  item={item}
+                  result={aiPreview.result}
+                  report={aiPreview.report}
+                  onApply={onApplyAiPreview}
+                  onDiscard={onDiscardAiPreview}
+                />
+              )}
+
+              {/* Nesting */}
+              <div className="flex flex-wrap items-center gap-3 text-xs text-[color:var(--text-dim)]">
+                <button type="button" onClick={onAddChild} className="hover:text-[color:var(--text)]">
+                  + Sub-step
+                </button>
+                {onIndent && (
+                  <button type="button" onClick={onIndent} className="hover:text-[color:var(--text)]" title="Make this a sub-step of the step above">
+                    Indent
+                  </button>
+                )}
+                {onOutdent && (
+                  <button type="button" onClick={onOutdent} className="hover:text-[color:var(--text)]" title="Move this up a level">
+                    Outdent
+                  </button>
+                )}
+              </div>
             </div>
 
             {/* Delete Button */}
@@ -232,44 +462,280 @@ function SortableItem({
 export default function HomePage() {
   const [mode, setMode] = useState<Mode>("builder")
   const [theme, setTheme] = useState<Theme>("dark")
-  const [items, setItems] = useState<ChecklistItem[]>([])
-  const [runnerState, setRunnerState] = useState<RunnerState>({})
+  const [library, setLibrary] = useState<ChecklistLibrary | null>(null)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [showRuns, setShowRuns] = useState(false)
+  const [showVariables, setShowVariables] = useState(false)
+  const [editingValues, setEditingValues] = useState(false)
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => new Set())
+  const [runnerFilter, setRunnerFilter] = useState<RunnerFilter>("all")
   const [apiKey, setApiKey] = useState("")
+  const [aiProviders, setAiProviders] = useState<AiProviderInfo[] | null>(null)
+  const [aiProvider, setAiProvider] = useState<AiProviderId>("gemini")
+  const [aiModel, setAiModel] = useState("")
+  const [generationReport, setGenerationReport] = useState<GenerationReport | null>(null)
+  const [suggestions, setSuggestions] = useState<Suggestion[] | null>(null)
+  const [mergeMode, setMergeMode] = useState<MergeMode>("append")
+  const [insertAfterId, setInsertAfterId] = useState("")
+  const [dependencySuggestions, setDependencySuggestions] = useState<{ edges: DependencySuggestion[]; report: GenerationReport | null } | null>(null)
+  const [isSuggestingDependencies, setIsSuggestingDependencies] = useState(false)
+  const [stepAiPreview, setStepAiPreview] = useState<StepAiPreviewState | null>(null)
+  const [stepAiBusy, setStepAiBusy] = useState<{ itemId: string; action: StepAiAction } | null>(null)
+  const [userName, setUserName] = useState("")
   const [prompt, setPrompt] = useState("")
   const [isGenerating, setIsGenerating] = useState(false)
-  const [importJson, setImportJson] = useState("")
+  const [streamedTitles, setStreamedTitles] = useState<string[]>([])
+  const generationAbort = useRef<AbortController | null>(null)
+  const [importText, setImportText] = useState("")
   const [error, setError] = useState<string | null>(null)
   const [showImport, setShowImport] = useState(false)
   const [showAI, setShowAI] = useState(false)
   const [toast, setToast] = useState<string | null>(null)
+  // The toast that offers Undo, and the change it would take back
+  const [undoToast, setUndoToast] = useState<{ message: string; entry: HistoryEntry | null } | null>(null)
+  const lastRecorded = useRef<HistoryEntry | null>(null)
+  const [histories, setHistories] = useState<Record<string, UndoHistory>>({})
   const [showImportConfirm, setShowImportConfirm] = useState(false)
+  const [importFormat, setImportFormat] = useState<FileFormat>("json")
+  const [csvMapping, setCsvMapping] = useState<CsvColumnMapping | null>(null)
+  const [csvHasHeader, setCsvHasHeader] = useState(true)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [sharedChecklist, setSharedChecklist] = useState<{ document: ChecklistDocument; messages: string[] } | null>(null)
+  const [shareError, setShareError] = useState<string | null>(null)  // A link that can't be made or opened
+  const [tabConflicts, setTabConflicts] = useState<{ message: string; details: string[] } | null>(null)
+  const [importIssues, setImportIssues] = useState<string[] | null>(null)
+  // `shared` is set when the merge started from a share link, so Back returns to its preview
+  const [importMerge, setImportMerge] = useState<{ diffs: ItemDiff[]; choices: MergeChoices; skipped: number; variables?: TemplateVariable[]; shared?: { document: ChecklistDocument; messages: string[] } } | null>(null)
   const [newItemId, setNewItemId] = useState<string | null>(null)
+  const [focusedStep, setFocusedStep] = useState<{ stepId?: string; activity: PresenceActivity }>({ activity: "viewing" })
   const [prevVisibleCount, setPrevVisibleCount] = useState(0)
 
+  const activeChecklist = library?.checklists.find(c => c.id === library.activeId) ?? null
+  const items = useMemo(() => activeChecklist?.items ?? [], [activeChecklist])
+  const activeRun = activeChecklist?.runs.find(r => r.id === activeChecklist.activeRunId) ?? null
+  const runnerState = useMemo(() => activeRun?.state ?? {}, [activeRun])
+  const variables = activeChecklist?.variables ?? []
+  const runValues = activeRun?.values ?? {}
+
+  const history = (activeChecklist && histories[activeChecklist.id]) || emptyHistory
+
+  // Saves the active checklist as it is now, so the change about to be made can be undone
+  const recordHistory = ({ label, group }: HistoryChange, fields: SnapshotField[] = []) => {
+    if (!activeChecklist) return
+    const entry = { label, group, at: Date.now(), before: takeSnapshot(activeChecklist, fields) }
+    lastRecorded.current = entry
+    setHistories(prev => ({ ...prev, [activeChecklist.id]: recordChange(prev[activeChecklist.id] ?? emptyHistory, entry) }))
+  }
+
+  // Builder and runner edits always target the active checklist in the library.
+  // Every builder edit goes through here and can be undone.
+  const setItems = (action: SetStateAction<ChecklistItem[]>, change: HistoryChange) => {
+    recordHistory(change)
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({
+      ...c,
+      items: typeof action === "function" ? action(c.items) : action
+    })))
+  }
+
+  const setVariables = (next: TemplateVariable[]) => {
+    recordHistory({ label: "Edit variables", group: "variables" }, ["variables"])
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({ ...c, variables: next.length > 0 ? next : undefined })))
+  }
+
+  const handlePickStarter = (template: StarterTemplate) => {
+    const { items: starterItems, variables: starterVariables } = instantiateStarterTemplate(template)
+    recordHistory({ label: `Use the "${template.name}" template` }, ["name", "variables"])
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({
+      ...c,
+      // Like an import, an empty checklist adopts the template's name
+      name: c.items.length === 0 ? template.name : c.name,
+      items: starterItems,
+      variables: starterVariables
+    })))
+    setShowVariables(true)
+    showUndoToast(`✓ Started from "${template.name}"`)
+  }
+
+  // Undo restores whole snapshots, so it would also revert what another tab
+  // or collaborator changed since; their checklists start a fresh history
+  const forgetHistory = (checklistIds: string[]) => {
+    setHistories(prev => {
+      if (!checklistIds.some(id => prev[id])) return prev
+      const next = { ...prev }
+      checklistIds.forEach(id => delete next[id])
+      return next
+    })
+  }
+
+  const handleUndo = () => {
+    if (!activeChecklist) return
+    const result = undoChange(history, activeChecklist)
+    if (!result) return
+    setHistories(prev => ({ ...prev, [activeChecklist.id]: result.history }))
+    setLibrary(prev => prev && updateChecklist(prev, activeChecklist.id, c => ({ ...c, ...result.snapshot })))
+    showToast(`↩ Undid: ${result.label}`)
+  }
+
+  const handleRedo = () => {
+    if (!activeChecklist) return
+    const result = redoChange(history, activeChecklist)
+    if (!result) return
+    setHistories(prev => ({ ...prev, [activeChecklist.id]: result.history }))
+    setLibrary(prev => prev && updateChecklist(prev, activeChecklist.id, c => ({ ...c, ...result.snapshot })))
+    showToast(`↪ Redid: ${result.label}`)
+  }
+
+  // Runner toggles go to the checklist's active run
+  const updateActiveRun = (update: (run: ChecklistRun) => ChecklistRun) => {
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({
+      ...c,
+      runs: c.runs.map(r => (r.id === c.activeRunId ? syncParentCompletion(update(r), c.items, userName) : r))
+    })))
+  }
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleAddChild = (parentId: string) => {
+    const child = { ...createEmptyItem(), parentId }
+    setItems(prev => {
+      // Insert after the parent's last descendant so it shows up as the last sub-step
+      const subtree = [parentId, ...descendantIds(prev, parentId)]
+      const index = Math.max(...subtree.map(id => prev.findIndex(i => i.id === id))) + 1
+      return [...prev.slice(0, index), child, ...prev.slice(index)]
+    }, { label: "Add sub-step" })
+    setCollapsedIds(prev => {
+      const next = new Set(prev)
+      next.delete(parentId)
+      return next
+    })
+    setNewItemId(child.id)
+  }
+
+  const handleDeleteItem = (item: ChecklistItem) => {
+    const removed = [item.id, ...descendantIds(items, item.id)]
+    if (removed.length > 1 && !confirm(`Delete "${item.title || "Untitled"}" and its ${removed.length - 1} sub-steps?`)) return
+    const label = `Delete "${item.title || "Untitled"}"`
+    setItems(prev => removed.reduce(
+      (remaining, id) => removeStepReferences(remaining, id),
+      prev.filter(i => !removed.includes(i.id))
+    ), { label })
+    showUndoToast(`✓ Deleted "${item.title || "Untitled"}"${removed.length > 1 ? ` and ${removed.length - 1} sub-steps` : ""}`)
+  }
+
+  const handleToggleStep = (itemId: string) => {
+    updateActiveRun(run => run.state[itemId]
+      ? uncompleteSteps(run, [itemId], userName)
+      : completeSteps(run, [itemId], userName))
+  }
+
+  const handleResetProgress = () => {
+    updateActiveRun(run => uncompleteSteps(run, Object.keys(run.state), userName, "Progress reset"))
+    showToast("✓ Progress reset")
+  }
+
+  const handleExportAuditLog = () => {
+    if (!activeChecklist || !activeRun) return
+    downloadFile(
+      auditLogToCsv(activeRun, items.map(item => fillItem(item, runValues))),
+      documentFileName(`${activeChecklist.name} ${activeRun.name} audit`, "csv"),
+      'text/csv'
+    )
+    showToast("✓ Audit log downloaded")
+  }
+
+  const handleStartRun = (name: string) => {
+    if (!activeChecklist) return
+    const run = createRun(name.trim() || `Run ${activeChecklist.runs.length + 1}`)
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({
+      ...c,
+      runs: [...c.runs, run],
+      activeRunId: run.id
+    })))
+    setShowRuns(false)
+    showToast(`✓ Started "${run.name}"`)
+  }
+
+  const handleArchiveRun = (id: string, archived: boolean) => {
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => {
+      const runs = c.runs.map(r => (r.id === id ? { ...r, archived: archived || undefined } : r))
+      // Archiving the active run moves to another open one when there is one
+      const fallback = runs.find(r => !r.archived)
+      const activeRunId = archived && c.activeRunId === id && fallback ? fallback.id : c.activeRunId
+      return { ...c, runs, activeRunId }
+    }))
+  }
+
+  const showToast = (message: string) => {
+    setToast(message)
+    setTimeout(() => setToast(current => (current === message ? null : current)), 3000)
+  }
+
+  // After destructive changes; the toast offers Undo for a little longer
+  const showUndoToast = (message: string) => {
+    setToast(message)
+    setUndoToast({ message, entry: lastRecorded.current })
+    setTimeout(() => setToast(current => (current === message ? null : current)), 6000)
+  }
+
+  const collaboration = useCollaboration(library, setLibrary, { name: userName.trim() || "Guest", mode, ...focusedStep }, showToast, forgetHistory)
+  const peersOn = (stepId: string) => collaboration.peers.filter(peer => peer.stepId === stepId)
+  const syncStatus = useServerSync(library, setLibrary, showToast, collaboration.status === "live" ? library?.activeId ?? null : null)
+  useTabSync(library, setLibrary, (message, details) => {
+    if (details) setTabConflicts({ message, details })
+    else showToast(message)
+  }, forgetHistory)
+
+  const switchChecklist = (id: string) => {
+    setLibrary(prev => prev && { ...prev, activeId: id })
+    setShowImportConfirm(false)
+    // A merge in progress was diffed against the previous checklist
+    setImportMerge(null)
+    setEditingValues(false)
+    setError(null)
+  }
+
+  const handleCreateChecklist = (name: string) => {
+    if (!library) return
+    const checklist = createChecklist(uniqueName(name.trim() || "Untitled checklist", library.checklists.map(c => c.name)))
+    setLibrary({ activeId: checklist.id, checklists: [...library.checklists, checklist] })
+    setMode("builder")
+    showToast(`✓ Created "${checklist.name}"`)
+  }
+
+  const handleDuplicateChecklist = (id: string) => {
+    const source = library?.checklists.find(c => c.id === id)
+    if (!library || !source) return
+    const copy = duplicateChecklist(source, library.checklists.map(c => c.name))
+    setLibrary({ activeId: copy.id, checklists: [...library.checklists, copy] })
+    showToast(`✓ Duplicated as "${copy.name}"`)
+  }
+
+  const handleArchiveChecklist = (id: string, archived: boolean) => {
+    setLibrary(prev => {
+      if (!prev) return prev
+      const next = updateChecklist(prev, id, c => ({ ...c, archived: archived || undefined }))
+      if (archived && prev.activeId === id) {
+        const fallback = next.checklists.find(c => !c.archived)
+        if (fallback) return { ...next, activeId: fallback.id }
+      }
+      return next
+    })
+  }
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor)
   )
 
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        const { items: validated } = sanitizeChecklistItems(Array.isArray(parsed) ? parsed : [])
-        setItems(validated)
-      }
-    } catch {}
-
-    try {
-      const storedRunner = localStorage.getItem(RUNNER_KEY)
-      if (storedRunner) {
-        const parsed = JSON.parse(storedRunner)
-        if (typeof parsed === "object" && parsed !== null) {
-          setRunnerState(parsed)
-        }
-      }
-    } catch {}
+    setLibrary(loadLibrary())
 
     try {
       const storedTheme = localStorage.getItem(THEME_KEY)
@@ -279,19 +745,93 @@ export default function HomePage() {
       }
     } catch {}
 
+    let storedProvider: AiProviderId | null = null
+    try {
+      const settings = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) ?? "null")
+      if (isAiProviderId(settings?.provider)) {
+        storedProvider = settings.provider
+        setAiProvider(settings.provider)
+        setAiModel(typeof settings.model === "string" ? settings.model : "")
+      }
+      setApiKey(localStorage.getItem(apiKeyStorageKey(storedProvider ?? "gemini")) ?? "")
+    } catch {}
+
+    fetch("/api/generate")
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!Array.isArray(data?.providers)) return
+        setAiProviders(data.providers)
+        if (!storedProvider && isAiProviderId(data.defaultProvider)) {
+          setAiProvider(data.defaultProvider)
+          try {
+            setApiKey(localStorage.getItem(apiKeyStorageKey(data.defaultProvider)) ?? "")
+          } catch {}
+        }
+      })
+      .catch(() => {})
+
     try {
-      const storedKey = localStorage.getItem("gemini-api-key")
-      if (storedKey) setApiKey(storedKey)
+      setUserName(localStorage.getItem(USER_NAME_KEY) ?? "")
     } catch {}
   }, [])
 
+  // Share links open as a preview, on load or when pasted into this tab
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
-  }, [items])
+    const openSharedLink = () => {
+      if (!isShareFragment(window.location.hash)) return
+      readShareFragment(window.location.hash)
+        .then(shared => {
+          setSharedChecklist(shared)
+          setShareError(null)
+        })
+        .catch(err => {
+          setSharedChecklist(null)
+          setShareError(err.message || "Could not open the share link")
+        })
+    }
+    openSharedLink()
+    window.addEventListener("hashchange", openSharedLink)
+    return () => window.removeEventListener("hashchange", openSharedLink)
+  }, [])
 
+  // Ctrl/Cmd+Z undoes builder edits, Shift+Z or Ctrl+Y redoes. Fields outside
+  // the step list keep their own text undo.
+  const undoShortcuts = useRef({ mode, handleUndo, handleRedo })
+  undoShortcuts.current = { mode, handleUndo, handleRedo }
   useEffect(() => {
-    localStorage.setItem(RUNNER_KEY, JSON.stringify(runnerState))
-  }, [runnerState])
+    const onKeyDown = (event: KeyboardEvent) => {
+      const { mode, handleUndo, handleRedo } = undoShortcuts.current
+      if (mode !== "builder") return
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const key = event.key.toLowerCase()
+      const redo = (key === "z" && event.shiftKey) || (key === "y" && !event.metaKey)
+      if (key !== "z" && !redo) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable]") && !target.closest("[data-item-id]")) return
+      event.preventDefault()
+      if (redo) handleRedo()
+      else handleUndo()
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  // The focused step is shared with others in the live session
+  useEffect(() => {
+    const onFocusChange = (event: FocusEvent) => {
+      const target = (event.type === "focusin" ? event.target : event.relatedTarget) as HTMLElement | null
+      const step = target?.closest<HTMLElement>("[data-item-id], [data-runner-item-id]")
+      const stepId = step?.dataset.itemId ?? step?.dataset.runnerItemId
+      const activity: PresenceActivity = stepId && step?.dataset.itemId && target?.matches("input, textarea, select") ? "editing" : "viewing"
+      setFocusedStep(prev => (prev.stepId === stepId && prev.activity === activity ? prev : { stepId, activity }))
+    }
+    document.addEventListener("focusin", onFocusChange)
+    document.addEventListener("focusout", onFocusChange)
+    return () => {
+      document.removeEventListener("focusin", onFocusChange)
+      document.removeEventListener("focusout", onFocusChange)
+    }
+  }, [])
 
   useEffect(() => {
     if (newItemId) {
@@ -311,11 +851,22 @@ export default function HomePage() {
   const handleDragEnd = (event: any) => {
     const { active, over } = event
     if (!over || active.id === over.id) return
-    setItems(prev => {
-      const oldIndex = prev.findIndex(i => i.id === active.id)
-      const newIndex = prev.findIndex(i => i.id === over.id)
-      return arrayMove(prev, oldIndex, newIndex)
-    })
+    // Dropping below its old position lands after the target, otherwise before it
+    const rowIds = builderRows.map(row => row.item.id)
+    const movingDown = rowIds.indexOf(active.id) < rowIds.indexOf(over.id)
+    const moved = moveItem(items, active.id, over.id, movingDown)
+    if (!moved) {
+      showToast("A step can't be moved inside its own sub-steps")
+      return
+    }
+    setItems(moved, { label: "Move step" })
+  }
+
+  const handleUserNameChange = (name: string) => {
+    setUserName(name)
+    try {
+      localStorage.setItem(USER_NAME_KEY, name.trim())
+    } catch {}
   }
 
   const toggleTheme = () => {
@@ -325,9 +876,36 @@ export default function HomePage() {
     localStorage.setItem(THEME_KEY, next)
   }
 
+  const aiProviderInfo = aiProviders?.find(p => p.id === aiProvider)
+  // Without the provider list, assume only the mock works keyless
+  const needsApiKey = aiProviderInfo ? aiProviderInfo.requiresKey && !aiProviderInfo.hasServerKey : aiProvider !== "mock"
+
+  const handleAiProviderChange = (provider: AiProviderId) => {
+    setAiProvider(provider)
+    setAiModel("")
+    setError(null)
+    try {
+      setApiKey(localStorage.getItem(apiKeyStorageKey(provider)) ?? "")
+      localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify({ provider, model: "" }))
+    } catch {}
+  }
+
+  const handleAiModelChange = (model: string) => {
+    setAiModel(model)
+    try {
+      localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify({ provider: aiProvider, model }))
+    } catch {}
+  }
+
+  // Provider settings from the AI panel, sent with every AI request
+  const aiRequestSettings = () => {
+    if (apiKey.trim()) localStorage.setItem(apiKeyStorageKey(aiProvider), apiKey.trim())
+    return { provider: aiProvider, model: aiModel.trim() || undefined, apiKey: apiKey.trim() || undefined }
+  }
+
   const handleGenerate = async () => {
-    if (!apiKey.trim()) {
-      setError("Please enter your Gemini API key")
+    if (needsApiKey && !apiKey.trim()) {
+      setError(`Please enter your ${aiProviderLabels[aiProvider]} API key`)
       return
     }
     if (!prompt.trim()) {
@@ -335,139 +913,368 @@ export default function HomePage() {
       return
     }
 
+    // Replacing an empty checklist is the same as appending to it
+    const mode: MergeMode = items.length === 0 ? "replace" : mergeMode
+    const controller = new AbortController()
+    generationAbort.current = controller
     setIsGenerating(true)
+    setStreamedTitles([])
     setError(null)
+    setGenerationReport(null)
+    setSuggestions(null)
+
+    const showSuggestions = (generated: unknown[], report: GenerationReport | null) => {
+      const { items: validated } = sanitizeChecklistItems(generated)
+      setMergeMode(mode)
+      setSuggestions(createSuggestions(validated, mode === "replace" ? [] : items))
+      setGenerationReport(report?.repaired.length || report?.dropped.length ? report : null)
+      setShowAI(false)
+      setShowImport(false)
+      setPrompt("")
+      setError(null)
+    }
 
+    // Raw steps in the order they streamed in, kept for when the stream breaks off
+    const received: unknown[] = []
+    let failure: string | null = null
     try {
-      localStorage.setItem("gemini-api-key", apiKey)
-
-      const res = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `You are an expert onboarding assistant. Generate a detailed, step-by-step checklist in JSON format.
-
-Requirements:
-- Return ONLY valid JSON (no markdown, no explanations)
-- Each step must have: id (UUID), title (string), description (string), dependsOn (array of step IDs), aiGenerated (true)
-- Create 8-12 logical steps
-- Use dependencies to show order (e.g., setup before config)
-- Make titles clear and action-oriented
-- Add helpful descriptions
-
-User request: ${prompt}
-
-Return JSON array of steps.`
-              }]
-            }]
-          })
+      const res = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({
+          ...aiRequestSettings(),
+          prompt,
+          existing: mode === "replace" ? [] : items.map(i => i.title).filter(Boolean)
+        }),
+        signal: controller.signal
+      })
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error || `Generation failed (${res.status})`)
+      }
+
+      for await (const { event, data } of readServerSentEvents(res.body)) {
+        const payload = JSON.parse(data)
+        if (event === "step") {
+          received.push(payload)
+          setStreamedTitles(prev => [...prev, typeof payload?.title === "string" && payload.title.trim() ? payload.title.trim() : "Untitled"])
+        } else if (event === "done") {
+          showSuggestions(Array.isArray(payload?.items) ? payload.items : [], payload?.report ?? null)
+          return
+        } else if (event === "error") {
+          failure = payload?.error || "Generation failed"
         }
-      )
+      }
+      failure = failure ?? "The reply ended early"
+    } catch (err: any) {
+      // A cancel isn't a failure
+      failure = controller.signal.aborted ? null : err.message || "Failed to generate checklist"
+    } finally {
+      generationAbort.current = null
+      setIsGenerating(false)
+      setStreamedTitles([])
+    }
+
+    if (received.length === 0) {
+      setError(failure)
+      return
+    }
+    // Whatever arrived before a failure or cancel is still worth reviewing
+    try {
+      const { items: partial, report } = normalizeGeneratedSteps(received)
+      report.repaired.unshift(failure
+        ? `Stopped after ${received.length} step${received.length === 1 ? "" : "s"}: ${failure}`
+        : `Cancelled after ${received.length} step${received.length === 1 ? "" : "s"}`)
+      showSuggestions(partial, report)
+    } catch (err: any) {
+      setError(failure ?? err.message)
+    }
+  }
 
+  const handleCancelGeneration = () => {
+    generationAbort.current?.abort()
+  }
+
+  const handleSuggestDependencies = async () => {
+    if (needsApiKey && !apiKey.trim()) {
+      setShowAI(true)
+      setShowImport(false)
+      setError(`Enter your ${aiProviderLabels[aiProvider]} API key to get dependency suggestions`)
+      return
+    }
+
+    setIsSuggestingDependencies(true)
+    setDependencySuggestions(null)
+    try {
+      const res = await fetch("/api/generate/dependencies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...aiRequestSettings(), items })
+      })
+      const data = await res.json().catch(() => null)
       if (!res.ok) {
-        throw new Error(`API error: ${res.status}`)
+        throw new Error(data?.error || `Suggestion failed (${res.status})`)
       }
+      // Steps may have changed while waiting; only keep edges between steps that still exist
+      const edges: DependencySuggestion[] = (Array.isArray(data?.edges) ? data.edges : []).filter(
+        (e: any) => items.some(i => i.id === e?.itemId) && items.some(i => i.id === e?.depId) && typeof e.rationale === "string"
+      )
+      setDependencySuggestions({ edges, report: data?.report ?? null })
+    } catch (err: any) {
+      showToast(err.message || "Failed to suggest dependencies")
+    } finally {
+      setIsSuggestingDependencies(false)
+    }
+  }
 
-      const data = await res.json()
-      const text = data?.candidates?.[0]?.content?.parts?.[0]?.text
-      if (!text) throw new Error("No response from AI")
+  const handleApplyDependencies = (edges: DependencySuggestion[]) => {
+    // Re-checked against the latest steps, so nothing cyclic lands even if they changed
+    const result = applyDependencySuggestions(items, edges)
+    setItems(result.items, { label: "Add suggested dependencies" })
+    setDependencySuggestions(null)
+    showToast(`✓ Added ${result.applied.length} dependenc${result.applied.length === 1 ? "y" : "ies"}${result.skipped.length > 0 ? `, skipped ${result.skipped.length}` : ""}`)
+  }
 
-      const clean = text.replace(/```json|```/g, "").trim()
-      const parsed = JSON.parse(clean)
-      const { items: validated } = sanitizeChecklistItems(Array.isArray(parsed) ? parsed : [])
-      
-      setItems(validated)
-      setShowAI(false)
+  const handleStepAiAction = async (itemId: string, action: StepAiAction) => {
+    if (stepAiBusy) return
+    if (needsApiKey && !apiKey.trim()) {
+      setShowAI(true)
       setShowImport(false)
-      setPrompt("")
-      setError(null)
-      setToast(`✓ Generated ${validated.length} steps`)
-      setTimeout(() => setToast(null), 3000)
+      setError(`Enter your ${aiProviderLabels[aiProvider]} API key to use AI on a step`)
+      return
+    }
+
+    setStepAiBusy({ itemId, action })
+    setStepAiPreview(null)
+    try {
+      const res = await fetch("/api/generate/step", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...aiRequestSettings(), action, itemId, items })
+      })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) {
+        throw new Error(data?.error || `${stepAiActionLabels[action]} failed (${res.status})`)
+      }
+      if (data?.result?.action !== action) {
+        throw new Error("Unexpected reply from the server")
+      }
+      setStepAiPreview({ itemId, result: data.result, report: data?.report ?? null })
     } catch (err: any) {
-      setError(err.message || "Failed to generate checklist")
+      showToast(err.message || `${stepAiActionLabels[action]} failed`)
     } finally {
-      setIsGenerating(false)
+      setStepAiBusy(null)
+    }
+  }
+
+  const handleApplyStepAi = () => {
+    if (!stepAiPreview) return
+    const { itemId, result } = stepAiPreview
+    setItems(prev => applyStepAction(prev, itemId, result), { label: `AI ${stepAiActionLabels[result.action].toLowerCase()}` })
+    setStepAiPreview(null)
+    if (result.action === "expand") {
+      // Show the new sub-steps even if the step was collapsed
+      setCollapsedIds(prev => {
+        const next = new Set(prev)
+        next.delete(itemId)
+        return next
+      })
     }
+    showUndoToast(`✓ ${stepAiActionLabels[result.action]} applied`)
+  }
+
+  const insertAfterItem = items.find(i => i.id === insertAfterId)
+
+  const handleApplySuggestions = () => {
+    if (!suggestions) return
+    const added = suggestions.filter(s => s.accepted).length
+    setItems(mergeSuggestions(items, suggestions, mergeMode, insertAfterItem?.id), {
+      label: mergeMode === "replace" ? "Replace with generated steps" : "Add generated steps"
+    })
+    setSuggestions(null)
+    setGenerationReport(null)
+    showUndoToast(`✓ Added ${added} step${added === 1 ? "" : "s"}`)
   }
 
-  const handleExport = () => {
+  const handleExport = (format: FileFormat) => {
+    setShowExportMenu(false)
     if (items.length === 0) {
-      setToast("No checklist to export")
-      setTimeout(() => setToast(null), 3000)
+      showToast("No checklist to export")
       return
     }
 
-    const json = JSON.stringify(items, null, 2)
-    const blob = new Blob([json], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `checklist-${new Date().toISOString().slice(0, 10)}.json`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    const name = activeChecklist?.name ?? "Checklist"
+    const includeProgress = completedCount > 0 && confirm("Include runner progress in the export?")
+    const progress = includeProgress ? runnerState : undefined
+
+    if (format === "markdown") {
+      downloadFile(checklistToMarkdown(name, items, progress), documentFileName(name, "md"), 'text/markdown')
+    } else if (format === "csv") {
+      downloadFile(checklistToCsv(items, progress), documentFileName(name, "csv"), 'text/csv')
+    } else {
+      const doc = createChecklistDocument(name, items, progress, activeChecklist?.variables)
+      downloadFile(JSON.stringify(doc, null, 2), documentFileName(name, "json"), 'application/json')
+    }
     
-    setToast("✓ Checklist downloaded")
-    setTimeout(() => setToast(null), 3000)
+    showToast("✓ Checklist downloaded")
+  }
+
+  const handleCopyShareLink = async () => {
+    setShowExportMenu(false)
+    if (!activeChecklist || items.length === 0) {
+      showToast("No checklist to share")
+      return
+    }
+    const includeProgress = completedCount > 0 && confirm("Include runner progress in the link?")
+    const doc = createChecklistDocument(activeChecklist.name, items, includeProgress ? runnerState : undefined, activeChecklist.variables)
+    let link: string
+    try {
+      link = await createShareLink(window.location.href, doc)
+    } catch (err: any) {
+      setShareError(err.message || "Could not create the share link")
+      return
+    }
+    const warning = shareLinkSizeWarning(link.length)
+    if (link.length > SHARE_LINK_MAX_LENGTH) {
+      setShareError(warning)
+      return
+    }
+    if (warning && !confirm(`${warning}\n\nCopy the link anyway?`)) return
+    try {
+      await navigator.clipboard.writeText(link)
+      showToast("✓ Share link copied")
+    } catch {
+      // Clipboard access can be refused; the user can still copy it by hand
+      window.prompt("Copy this share link:", link)
+    }
+  }
+
+  // Drops the shared checklist from the address bar so a reload doesn't offer it again
+  const closeSharedChecklist = () => {
+    setSharedChecklist(null)
+    setShareError(null)
+    if (isShareFragment(window.location.hash)) {
+      window.history.replaceState(null, "", window.location.pathname + window.location.search)
+    }
+  }
+
+  const handleImportSharedAsNew = () => {
+    if (!sharedChecklist || !library) return
+    const { document: doc } = sharedChecklist
+    const checklist = {
+      ...createChecklist(uniqueName(doc.name, library.checklists.map(c => c.name)), doc.items, doc.runnerState),
+      variables: doc.variables
+    }
+    setLibrary({ ...library, activeId: checklist.id, checklists: [...library.checklists, checklist] })
+    closeSharedChecklist()
+    showToast(`✓ Added "${checklist.name}" to your checklists`)
   }
 
-  const handleImport = () => {
+  // Merging reuses the import merge review against the active checklist
+  const handleMergeShared = () => {
+    if (!sharedChecklist) return
+    const { document: doc } = sharedChecklist
+    const diffs = diffChecklists(items, doc.items)
+    setImportMerge({ diffs, choices: defaultMergeChoices(diffs), skipped: 0, variables: doc.variables, shared: sharedChecklist })
+    setShowImport(true)
+    setMode("builder")
+    closeSharedChecklist()
+  }
+
+  const handleImport = (strategy?: ImportStrategy) => {
     // Clear previous errors
     setError(null)
     
-    // Check if JSON is empty
-    if (!importJson.trim()) {
-      setError("Please paste JSON content")
+    // Check if input is empty
+    if (!importText.trim()) {
+      setError(
+        importFormat === "markdown" ? "Please paste a Markdown task list"
+          : importFormat === "csv" ? "Please paste CSV content"
+          : "Please paste JSON content"
+      )
       return
     }
     
     try {
-      const parsed = JSON.parse(importJson)
-      
-      // Validate that it's an array
-      if (!Array.isArray(parsed)) {
-        setError("Invalid format: JSON must be an array of checklist items")
-        return
-      }
-      
-      // Validate that it's not empty
-      if (parsed.length === 0) {
-        setError("Cannot import empty checklist")
-        return
+      let result: ReturnType<typeof parseChecklistDocument>
+      if (importFormat === "markdown") {
+        result = parseMarkdownChecklist(importText)
+      } else if (importFormat === "csv") {
+        const rows = parseCsv(importText)
+        // First pass only proposes a column mapping for the user to confirm
+        if (!csvMapping) {
+          setCsvMapping(guessCsvMapping(rows[0] ?? []))
+          return
+        }
+        result = csvRowsToDocument(rows, csvMapping, { hasHeader: csvHasHeader })
+      } else {
+        const parsed = JSON.parse(importText)
+        
+        // Accepts bare arrays from older exports as well as versioned documents
+        const rawItems = Array.isArray(parsed) ? parsed : parsed?.items
+        if (Array.isArray(rawItems) && rawItems.length === 0) {
+          setError("Cannot import empty checklist")
+          return
+        }
+        result = parseChecklistDocument(parsed)
       }
       
-      const { items: validated, messages } = sanitizeChecklistItems(parsed)
+      const { document: imported, messages } = result
+      const validated = imported.items
       
       // Check if sanitization resulted in no valid items
       if (validated.length === 0) {
-        setError("No valid checklist items found in JSON")
+        setError("No valid checklist items found")
         return
       }
       
-      // Check if there are existing items and show confirmation
-      if (items.length > 0 && !showImportConfirm) {
+      // Report dependency graph problems before anything is replaced
+      const graphIssues = validateDependencyGraph(validated)
+      if (graphIssues.length > 0 && !importIssues) {
+        setImportIssues(graphIssues.map(issue => describeGraphIssue(issue, validated)))
+        return
+      }
+      const repaired = graphIssues.length > 0 ? repairDependencyGraph(validated) : { items: validated, messages: [] }
+      
+      // Check if there are existing items and ask whether to replace or merge
+      if (items.length > 0 && !strategy) {
         setShowImportConfirm(true)
         return
       }
+
+      // Merging waits for the user to resolve each conflict; imported progress is ignored
+      if (strategy === "merge") {
+        const diffs = diffChecklists(items, repaired.items)
+        setImportMerge({ diffs, choices: defaultMergeChoices(diffs), skipped: messages.length, variables: imported.variables })
+        setShowImportConfirm(false)
+        return
+      }
       
-      setItems(validated)
+      // Replacing the checklist starts over with a single run holding any imported progress
+      const importedRun = createRun(imported.runnerState ? "Imported run" : "Run 1", imported.runnerState ?? {})
+      recordHistory({ label: "Import checklist" }, ["name", "variables", "runs", "activeRunId"])
+      setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({
+        ...c,
+        // An empty checklist adopts the imported name; otherwise the user's name wins
+        name: c.items.length === 0 ? imported.name : c.name,
+        items: repaired.items,
+        variables: imported.variables,
+        runs: [importedRun],
+        activeRunId: importedRun.id
+      })))
       setShowImport(false)
       setShowImportConfirm(false)
-      setImportJson("")
+      setImportIssues(null)
+      setCsvMapping(null)
+      setImportText("")
       setError(null)
       
-      // Show warning if some items were skipped
-      if (messages.length > 0) {
-        setToast(`⚠️ Imported ${validated.length} steps (${messages.length} skipped)`)
+      // Show warning if some items were skipped or dependencies dropped
+      if (messages.length > 0 || repaired.messages.length > 0) {
+        showUndoToast(`⚠️ Imported ${validated.length} steps (${messages.length} skipped, ${repaired.messages.length} dependencies removed)`)
       } else {
-        setToast(`✓ Imported ${validated.length} steps`)
+        showUndoToast(`✓ Imported ${validated.length} steps`)
       }
-      setTimeout(() => setToast(null), 3000)
     } catch (err: any) {
       if (err instanceof SyntaxError) {
         setError("Invalid JSON format: Check for missing commas, brackets, or quotes")
@@ -477,15 +1284,88 @@ Return JSON array of steps.`
     }
   }
 
-  const visibleRunnerItems = useMemo(() => {
-    return items.filter(item => {
-      if (item.dependsOn.length === 0) return true
-      return item.dependsOn.every(depId => runnerState[depId])
+  const handleApplyImportMerge = () => {
+    if (!importMerge) return
+    const { items: merged, messages } = applyImportMerge(items, importMerge.diffs, importMerge.choices)
+    const unchanged = unchangedStepIds(items, merged)
+    recordHistory({ label: "Merge import" }, ["variables", "runs"])
+    setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({
+      ...c,
+      items: merged,
+      // Imported variables are added to the declared ones; labels already set win
+      variables: mergeVariables(c.variables, importMerge.variables),
+      runs: c.runs.map(run => ({ ...run, state: keepProgressFor(run.state, unchanged) }))
+    })))
+    const resetCount = Object.keys(runnerState).filter(id => !unchanged.has(id)).length
+    setImportMerge(null)
+    setShowImport(false)
+    setImportIssues(null)
+    setCsvMapping(null)
+    setImportText("")
+    setError(null)
+
+    const added = merged.filter(item => !items.some(i => i.id === item.id)).length
+    const removed = items.filter(item => !merged.some(i => i.id === item.id)).length
+    const changed = merged.length - added - unchanged.size
+    const warnings = [
+      importMerge.skipped > 0 && `${importMerge.skipped} skipped`,
+      messages.length > 0 && `${messages.length} references removed`,
+      resetCount > 0 && `progress reset on ${resetCount} step${resetCount === 1 ? "" : "s"}`
+    ].filter(Boolean)
+    showUndoToast(`${warnings.length > 0 ? "⚠️" : "✓"} Merged: ${added} added, ${removed} removed, ${changed} changed${warnings.length > 0 ? ` (${warnings.join(", ")})` : ""}`)
+  }
+
+  const stepStates = useMemo(() => evaluateSteps(items, runnerState), [items, runnerState])
+
+  const builderRows = useMemo(() => flattenTree(items, collapsedIds), [items, collapsedIds])
+
+  const visibleRunnerRows = useMemo(() => {
+    return builderRows.filter(({ item }) => {
+      const state = stepStates.get(item.id)
+      return state === "done" || state === "available"
     })
-  }, [items, runnerState])
+  }, [builderRows, stepStates])
+  const visibleRunnerItems = useMemo(() => visibleRunnerRows.map(row => row.item), [visibleRunnerRows])
+
+  // Relative due dates count from the start of the active run
+  const dueKeys = useMemo(() => {
+    const startedAt = activeRun?.startedAt ?? new Date().toISOString()
+    return new Map(items.map(item => [item.id, dueDateKey(item, startedAt)]))
+  }, [items, activeRun?.startedAt])
+  const isStepOverdue = (id: string) => !runnerState[id] && isOverdue(dueKeys.get(id))
+
+  const hasEstimates = items.some(item => item.estimateHours)
+  const criticalPath = useMemo(() => computeCriticalPath(items, runnerState), [items, runnerState])
+  const projectedFinish = criticalPath.remainingHours > 0 ? projectFinishDate(new Date(), criticalPath.remainingHours) : null
+
+  const runnerFilterMatches: Record<RunnerFilter, (item: ChecklistItem) => boolean> = {
+    all: () => true,
+    mine: item => isAssignedTo(item, userName),
+    overdue: item => isStepOverdue(item.id),
+    "this-week": item => !runnerState[item.id] && isDueThisWeek(dueKeys.get(item.id)),
+    critical: item => !!criticalPath.steps.get(item.id)?.critical
+  }
+  const filteredRunnerRows = visibleRunnerRows.filter(({ item }) => runnerFilterMatches[runnerFilter](item))
+
+  const csvPreview = useMemo(() => {
+    if (importFormat !== "csv" || !csvMapping) return null
+    try {
+      const rows = parseCsv(importText)
+      const { document: doc, messages } = csvRowsToDocument(rows, csvMapping, { hasHeader: csvHasHeader })
+      return { rows, messages, count: doc.items.length }
+    } catch (err: any) {
+      return { rows: [], messages: [err.message || "Could not read CSV"], count: 0 }
+    }
+  }, [importFormat, csvMapping, csvHasHeader, importText])
 
-  const completedCount = Object.keys(runnerState).length
-  const progressPercent = items.length > 0 ? Math.round((completedCount / items.length) * 100) : 0
+  const dependencyIssues = useMemo(() => validateDependencyGraph(items), [items])
+
+  // Parents roll up from their sub-steps, and skipped steps don't count towards progress
+  const leafItems = items.filter(item => !items.some(i => i.parentId === item.id))
+  const completedCount = leafItems.filter(item => stepStates.get(item.id) === "done").length
+  const skippedCount = leafItems.filter(item => stepStates.get(item.id) === "skipped").length
+  const totalCount = leafItems.length - skippedCount
+  const progressPercent = totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0
 
   // Auto-scroll to newly unlocked items in Runner mode
   useEffect(() => {
@@ -514,9 +1394,45 @@ Return JSON array of steps.`
             <p className="text-xs sm:text-sm text-[color:var(--text-dim)] mt-1">
               Build dynamic checklists with AI assistance
             </p>
+            {syncStatus !== "idle" && (
+              <p className="flex items-center gap-1.5 text-[10px] text-[color:var(--text-dim)] mt-1" data-sync-status={syncStatus}>
+                <span
+                  className={cn(
+                    "inline-block h-1.5 w-1.5 rounded-full",
+                    syncStatus === "synced" && "bg-emerald-500",
+                    syncStatus === "syncing" && "bg-amber-500 animate-pulse",
+                    syncStatus === "offline" && "bg-[color:var(--text-dim)]"
+                  )}
+                />
+                {syncStatus === "synced" ? "Saved to server" : syncStatus === "syncing" ? "Syncing…" : "Offline, saved in this browser"}
+              </p>
+            )}
+            {collaboration.status && (
+              <div className="mt-2">
+                <PresenceList
+                  status={collaboration.status}
+                  peers={collaboration.peers}
+                  stepTitle={id => items.find(i => i.id === id)?.title}
+                />
+              </div>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
+            {activeChecklist && (
+              <Button
+                onClick={() => setShowLibrary(!showLibrary)}
+                variant={showLibrary ? "default" : "outline"}
+                size="sm"
+                className="max-w-[12rem]"
+                aria-label="Switch checklist"
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="mr-2 shrink-0">
+                  <path d="M3 4h10M3 8h10M3 12h6" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                </svg>
+                <span className="truncate">{activeChecklist.name}</span>
+              </Button>
+            )}
             <button
               onClick={toggleTheme}
               className="p-2 rounded-lg hover:bg-[color:var(--surface-hover)] text-[color:var(--text-dim)]"
@@ -535,6 +1451,63 @@ Return JSON array of steps.`
           </div>
         </div>
 
+        {/* Checklist Library */}
+        {showLibrary && library && (
+          <ChecklistLibraryPanel
+            library={library}
+            onSelect={id => {
+              switchChecklist(id)
+              setShowLibrary(false)
+            }}
+            onCreate={name => {
+              handleCreateChecklist(name)
+              setShowLibrary(false)
+            }}
+            onRename={(id, name) => setLibrary(prev => prev && updateChecklist(prev, id, c => ({ ...c, name })))}
+            onDuplicate={handleDuplicateChecklist}
+            onArchive={handleArchiveChecklist}
+            onDelete={id => setLibrary(prev => prev && removeChecklist(prev, id))}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
+
+        {/* Shared Checklist */}
+        {sharedChecklist && activeChecklist && (
+          <SharedChecklistPreview
+            document={sharedChecklist.document}
+            messages={sharedChecklist.messages}
+            currentName={activeChecklist.name}
+            onImportAsNew={handleImportSharedAsNew}
+            onMerge={items.length > 0 ? handleMergeShared : undefined}
+            onDismiss={closeSharedChecklist}
+          />
+        )}
+        {tabConflicts && (
+          <Card data-tab-conflicts>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm font-medium text-[color:var(--text)]">{tabConflicts.message}</p>
+                <Button onClick={() => setTabConflicts(null)} variant="ghost" size="sm">
+                  Dismiss
+                </Button>
+              </div>
+              <ul className="list-disc pl-5 space-y-1 text-xs text-[color:var(--text-dim)]">
+                {tabConflicts.details.map((detail, i) => <li key={i}>{detail}</li>)}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+        {shareError && (
+          <Card data-share-error>
+            <CardContent className="flex items-start justify-between gap-3 p-4">
+              <p className="text-sm text-rose-600 dark:text-rose-400">⚠️ {shareError}</p>
+              <Button onClick={closeSharedChecklist} variant="ghost" size="sm">
+                Dismiss
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Mode Switcher */}
         <Card className="p-1">
           <div className="flex gap-1">
@@ -585,11 +1558,30 @@ Return JSON array of steps.`
                       ? "bg-[color:var(--accent-contrast)] text-[color:var(--accent)]" 
                       : "bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
                   )}>
-                    {completedCount}/{items.length}
+                    {completedCount}/{totalCount}
                   </span>
                 )}
               </div>
             </button>
+            <button
+              onClick={() => setMode("graph")}
+              className={cn(
+                "flex-1 px-4 py-3 text-sm font-medium rounded-lg transition-all relative",
+                mode === "graph"
+                  ? "bg-[color:var(--accent)] text-[color:var(--accent-contrast)] shadow-md"
+                  : "text-[color:var(--text-dim)] hover:text-[color:var(--text)] hover:bg-[color:var(--surface-hover)]"
+              )}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                  <rect x="1.5" y="2.5" width="4" height="3" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+                  <rect x="1.5" y="10.5" width="4" height="3" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+                  <rect x="10.5" y="6.5" width="4" height="3" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+                  <path d="M5.5 4C8 4 8 8 10.5 8M5.5 12C8 12 8 8 10.5 8" stroke="currentColor" strokeWidth="1.5"/>
+                </svg>
+                Graph
+              </div>
+            </button>
           </div>
         </Card>
 
@@ -613,10 +1605,47 @@ Return JSON array of steps.`
                   </svg>
                   AI Generate
                 </Button>
+                <Button
+                  onClick={handleUndo}
+                  disabled={history.past.length === 0}
+                  variant="outline"
+                  size="sm"
+                  title={history.past.length > 0 ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+                  data-undo
+                >
+                  Undo
+                </Button>
+                <Button
+                  onClick={handleRedo}
+                  disabled={history.future.length === 0}
+                  variant="outline"
+                  size="sm"
+                  title={history.future.length > 0 ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  data-redo
+                >
+                  Redo
+                </Button>
+                <Button
+                  onClick={() => setShowVariables(!showVariables)}
+                  variant={showVariables ? "default" : "outline"}
+                  size="sm"
+                >
+                  Variables{variables.length > 0 && ` (${variables.length})`}
+                </Button>
+                {items.length > 1 && (
+                  <Button
+                    onClick={handleSuggestDependencies}
+                    disabled={isSuggestingDependencies}
+                    variant={dependencySuggestions ? "default" : "outline"}
+                    size="sm"
+                  >
+                    {isSuggestingDependencies ? "Suggesting..." : "AI: Suggest dependencies"}
+                  </Button>
+                )}
                 <Button
                   onClick={() => {
                     const newItem = createEmptyItem()
-                    setItems(prev => [...prev, newItem])
+                    setItems(prev => [...prev, newItem], { label: "Add step" })
                     setNewItemId(newItem.id)
                   }}
                   variant="outline"
@@ -624,16 +1653,50 @@ Return JSON array of steps.`
                 >
                   + Add Step
                 </Button>
-                <Button
-                  onClick={handleExport}
-                  variant="ghost"
-                  size="sm"
-                >
-                  Export
-                </Button>
+                <div className="relative">
+                  <Button
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    variant={showExportMenu ? "default" : "ghost"}
+                    size="sm"
+                  >
+                    Export
+                  </Button>
+                  {showExportMenu && (
+                    <div className="absolute left-0 top-full z-20 mt-1 w-40 rounded-lg border border-[color:var(--border-strong)] bg-[color:var(--card)] p-1 shadow-lg">
+                      <button
+                        onClick={() => handleExport("json")}
+                        className="w-full rounded-md px-3 py-2 text-left text-xs text-[color:var(--text)] hover:bg-[color:var(--surface-hover)]"
+                      >
+                        JSON document
+                      </button>
+                      <button
+                        onClick={() => handleExport("markdown")}
+                        className="w-full rounded-md px-3 py-2 text-left text-xs text-[color:var(--text)] hover:bg-[color:var(--surface-hover)]"
+                      >
+                        Markdown task list
+                      </button>
+                      <button
+                        onClick={() => handleExport("csv")}
+                        className="w-full rounded-md px-3 py-2 text-left text-xs text-[color:var(--text)] hover:bg-[color:var(--surface-hover)]"
+                      >
+                        CSV spreadsheet
+                      </button>
+                      <button
+                        onClick={handleCopyShareLink}
+                        className="w-full rounded-md border-t border-[color:var(--border)] px-3 py-2 text-left text-xs text-[color:var(--text)] hover:bg-[color:var(--surface-hover)]"
+                        data-copy-share-link
+                      >
+                        Copy share link
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <Button
                   onClick={() => {
                     setShowImport(!showImport)
+                    setImportIssues(null)
+                    setImportMerge(null)
+                    setCsvMapping(null)
                     setShowAI(false)
                     setError(null)
                   }}
@@ -650,6 +1713,15 @@ Return JSON array of steps.`
               )}
             </div>
 
+            {showVariables && activeChecklist && (
+              <TemplateVariablesEditor
+                variables={variables}
+                items={items}
+                onChange={setVariables}
+                onClose={() => setShowVariables(false)}
+              />
+            )}
+
             {/* AI Generation Panel */}
             {showAI && (
               <Card>
@@ -670,13 +1742,81 @@ Return JSON array of steps.`
                       </svg>
                     </button>
                   </div>
-                  <Input
-                    type="password"
-                    placeholder="Gemini API Key (get one at ai.google.dev)"
-                    value={apiKey}
-                    onChange={e => setApiKey(e.target.value)}
-                    className="text-sm"
-                  />
+                  <div className="flex flex-col gap-2 sm:flex-row">
+                    <select
+                      value={aiProvider}
+                      onChange={e => handleAiProviderChange(e.target.value as AiProviderId)}
+                      aria-label="AI provider"
+                      className="h-10 rounded-md border border-[color:var(--input-border)] bg-[color:var(--input-bg)] px-3 text-sm text-[color:var(--text)]"
+                    >
+                      {aiProviderIds.map(id => (
+                        <option key={id} value={id}>{aiProviderLabels[id]}</option>
+                      ))}
+                    </select>
+                    <Input
+                      list="ai-models"
+                      placeholder={aiProviderInfo?.defaultModel ?? "Model"}
+                      aria-label="Model"
+                      value={aiModel}
+                      onChange={e => handleAiModelChange(e.target.value)}
+                      className="text-sm sm:w-48"
+                    />
+                    <datalist id="ai-models">
+                      {aiProviderInfo?.models.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                  </div>
+                  {aiProvider !== "mock" && (
+                    <Input
+                      type="password"
+                      placeholder={needsApiKey
+                        ? `${aiProviderLabels[aiProvider]} API key${aiProvider === "gemini" ? " (get one at ai.google.dev)" : ""}`
+                        : "API key (optional, the server has one)"}
+                      value={apiKey}
+                      onChange={e => setApiKey(e.target.value)}
+                      className="text-sm"
+                    />
+                  )}
+                  {items.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <div className="flex gap-1 rounded-lg border border-[color:var(--border)] p-0.5" aria-label="Where generated steps go">
+                        {(Object.keys(mergeModeLabels) as MergeMode[]).map(mode => (
+                          <button
+                            key={mode}
+                            type="button"
+                            onClick={() => {
+                              setMergeMode(mode)
+                              if (mode === "insert" && !insertAfterItem) setInsertAfterId(items[items.length - 1].id)
+                            }}
+                            className={cn(
+                              "rounded-md px-2.5 py-1 text-xs transition-colors",
+                              mergeMode === mode
+                                ? "bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                                : "text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+                            )}
+                          >
+                            {mergeModeLabels[mode]}
+                          </button>
+                        ))}
+                      </div>
+                      {mergeMode === "insert" && (
+                        <select
+                          value={insertAfterItem?.id ?? ""}
+                          onChange={e => setInsertAfterId(e.target.value)}
+                          aria-label="Insert after step"
+                          className="h-8 min-w-0 flex-1 rounded-md border border-[color:var(--input-border)] bg-[color:var(--input-bg)] px-2 text-xs text-[color:var(--text)]"
+                        >
+                          {flattenTree(items).map(({ item, depth }) => (
+                            <option key={item.id} value={item.id}>
+                              {"\u00a0\u00a0".repeat(depth)}{item.title || "Untitled"}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {mergeMode === "replace" && (
+                        <span className="text-xs text-[color:var(--text-dim)]">Accepted steps replace all {items.length} current steps</span>
+                      )}
+                    </div>
+                  )}
                   <Textarea
                     placeholder="Example: 'Create an onboarding checklist for new SaaS customers using our accounting platform'"
                     value={prompt}
@@ -686,7 +1826,7 @@ Return JSON array of steps.`
                   <div className="flex gap-2">
                     <Button
                       onClick={handleGenerate}
-                      disabled={isGenerating || !apiKey || !prompt}
+                      disabled={isGenerating || (needsApiKey && !apiKey) || !prompt}
                       className="flex-1"
                     >
                       {isGenerating ? (
@@ -699,10 +1839,22 @@ Return JSON array of steps.`
                         </>
                       ) : "Generate Checklist"}
                     </Button>
-                    <Button onClick={() => setShowAI(false)} variant="ghost">
+                    <Button onClick={isGenerating ? handleCancelGeneration : () => setShowAI(false)} variant="ghost">
                       Cancel
                     </Button>
                   </div>
+                  {isGenerating && (
+                    <div className="space-y-1" data-streamed-steps>
+                      <p className="text-xs text-[color:var(--text-dim)]">
+                        {streamedTitles.length === 0
+                          ? "Waiting for the first step..."
+                          : `${streamedTitles.length} step${streamedTitles.length === 1 ? "" : "s"} so far`}
+                      </p>
+                      <ol className="list-decimal pl-5 space-y-0.5 text-sm text-[color:var(--text)]">
+                        {streamedTitles.map((title, index) => <li key={index}>{title}</li>)}
+                      </ol>
+                    </div>
+                  )}
                   {error && <p className="text-xs text-rose-500">{error}</p>}
                   {!error && (
                     <p className="text-xs text-[color:var(--text-dim)]">
@@ -713,31 +1865,95 @@ Return JSON array of steps.`
               </Card>
             )}
 
+            {/* AI Dependency Suggestions */}
+            {dependencySuggestions && (
+              <DependencySuggestions
+                items={items}
+                edges={dependencySuggestions.edges}
+                report={dependencySuggestions.report}
+                onApply={handleApplyDependencies}
+                onDiscard={() => setDependencySuggestions(null)}
+              />
+            )}
+
+            {/* AI Review Tray */}
+            {suggestions && (
+              <AiReviewTray
+                suggestions={suggestions}
+                existing={mergeMode === "replace" ? [] : items}
+                destination={mergeMode === "replace"
+                  ? "Replaces the current steps"
+                  : mergeMode === "insert" && insertAfterItem
+                    ? `Inserted after “${insertAfterItem.title || "Untitled"}”`
+                    : "Added to the end"}
+                report={generationReport}
+                onChange={setSuggestions}
+                onApply={handleApplySuggestions}
+                onDiscard={() => {
+                  setSuggestions(null)
+                  setGenerationReport(null)
+                }}
+              />
+            )}
+
             {/* Import Panel */}
             {showImport && (
               <Card>
                 <CardContent className="p-4 space-y-3">
-                  {showImportConfirm ? (
+                  {importMerge ? (
+                    <>
+                      <p className="text-sm font-medium text-[color:var(--text)]">Merge imported checklist</p>
+                      <ImportMergeReview
+                        diffs={importMerge.diffs}
+                        choices={importMerge.choices}
+                        onChangeChoices={choices => setImportMerge({ ...importMerge, choices })}
+                      />
+                      <div className="flex gap-2">
+                        <Button onClick={handleApplyImportMerge} className="flex-1">
+                          Merge
+                        </Button>
+                        <Button
+                          onClick={() => {
+                            setImportMerge(null)
+                            if (importMerge.shared) {
+                              setSharedChecklist(importMerge.shared)
+                              setShowImport(false)
+                            } else {
+                              setShowImportConfirm(true)
+                            }
+                          }}
+                          variant="ghost"
+                        >
+                          Back
+                        </Button>
+                      </div>
+                    </>
+                  ) : showImportConfirm ? (
                     <>
                       <div className="space-y-2">
                         <p className="text-sm font-medium text-[color:var(--text)]">⚠️ Replace existing checklist?</p>
                         <p className="text-xs text-[color:var(--text-dim)]">
-                          You have {items.length} existing step{items.length !== 1 ? 's' : ''}. Importing will replace all current items. This action cannot be undone.
+                          You have {items.length} existing step{items.length !== 1 ? 's' : ''}. Replacing removes all current items and progress (Undo brings them back).
+                          Merging matches steps by id or title and lets you pick which version wins for each difference.
                         </p>
                       </div>
                       <div className="flex gap-2">
                         <Button 
-                          onClick={handleImport} 
+                          onClick={() => handleImport("replace")} 
                           variant="default"
                           className="flex-1"
                         >
                           Replace Checklist
                         </Button>
+                        <Button onClick={() => handleImport("merge")} variant="outline" className="flex-1">
+                          Merge...
+                        </Button>
                         <Button 
                           onClick={() => {
                             setShowImportConfirm(false)
                             setShowImport(false)
-                            setImportJson("")
+                            setImportIssues(null)
+                            setImportText("")
                             setError(null)
                           }} 
                           variant="ghost"
@@ -746,9 +1962,57 @@ Return JSON array of steps.`
                         </Button>
                       </div>
                     </>
+                  ) : importIssues ? (
+                    <>
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium text-[color:var(--text)]">⚠️ Dependency problems found</p>
+                        <p className="text-xs text-[color:var(--text-dim)]">
+                          These steps would never unlock in the runner. Importing will remove the broken dependencies.
+                        </p>
+                        <ul className="rounded-lg border border-rose-500 bg-rose-50 dark:bg-rose-950/20 px-3 py-2 space-y-1">
+                          {importIssues.map((issue, index) => (
+                            <li key={index} className="text-xs text-rose-600 dark:text-rose-400">{issue}</li>
+                          ))}
+                        </ul>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button onClick={() => handleImport()} className="flex-1">
+                          Fix and Import
+                        </Button>
+                        <Button
+                          onClick={() => setImportIssues(null)}
+                          variant="ghost"
+                        >
+                          Back
+                        </Button>
+                      </div>
+                    </>
                   ) : (
                     <>
-                      <p className="text-sm font-medium text-[color:var(--text)]">Import JSON</p>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-medium text-[color:var(--text)]">Import</p>
+                        <div className="flex gap-1 rounded-lg border border-[color:var(--border)] p-0.5">
+                          {([["json", "JSON"], ["markdown", "Markdown"], ["csv", "CSV"]] as const).map(([format, label]) => (
+                            <button
+                              key={format}
+                              type="button"
+                              onClick={() => {
+                                setImportFormat(format)
+                                setCsvMapping(null)
+                                setError(null)
+                              }}
+                              className={cn(
+                                "rounded-md px-2.5 py-1 text-xs transition-colors",
+                                importFormat === format
+                                  ? "bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                                  : "text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+                              )}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                       {error && (
                         <div className="rounded-lg border border-rose-500 bg-rose-50 dark:bg-rose-950/20 px-3 py-2">
                           <p className="text-xs font-medium text-rose-600 dark:text-rose-400">
@@ -756,27 +2020,52 @@ Return JSON array of steps.`
                           </p>
                         </div>
                       )}
-                      <Textarea
-                        placeholder="Paste JSON here"
-                        value={importJson}
-                        onChange={e => {
-                          setImportJson(e.target.value)
-                          setError(null) // Clear error when user types
-                        }}
-                        rows={12}
-                        className={cn(
-                          "font-mono text-xs",
-                          error && "border-rose-500"
-                        )}
-                      />
+                      {csvMapping && csvPreview ? (
+                        <CsvImportMapping
+                          rows={csvPreview.rows}
+                          mapping={csvMapping}
+                          hasHeader={csvHasHeader}
+                          messages={csvPreview.messages}
+                          onChangeMapping={setCsvMapping}
+                          onChangeHasHeader={setCsvHasHeader}
+                        />
+                      ) : (
+                        <Textarea
+                          placeholder={
+                            importFormat === "markdown" ? "- [ ] First step\n- [ ] Second step"
+                              : importFormat === "csv" ? "id,title,description,depends_on,completed"
+                              : "Paste JSON here"
+                          }
+                          value={importText}
+                          onChange={e => {
+                            setImportText(e.target.value)
+                            setError(null) // Clear error when user types
+                          }}
+                          rows={12}
+                          className={cn(
+                            "font-mono text-xs",
+                            error && "border-rose-500"
+                          )}
+                        />
+                      )}
                       <div className="flex gap-2">
-                        <Button onClick={handleImport} className="flex-1" disabled={!importJson.trim()}>
-                          Import Checklist
+                        <Button onClick={() => handleImport()} className="flex-1" disabled={!importText.trim()}>
+                          {importFormat === "csv" && !csvMapping
+                            ? "Next: Map Columns"
+                            : csvMapping && csvPreview
+                              ? `Import ${csvPreview.count} Step${csvPreview.count !== 1 ? 's' : ''}`
+                              : "Import Checklist"}
                         </Button>
+                        {csvMapping && (
+                          <Button onClick={() => setCsvMapping(null)} variant="ghost">
+                            Back
+                          </Button>
+                        )}
                         <Button 
                           onClick={() => {
                             setShowImport(false)
-                            setImportJson("")
+                            setCsvMapping(null)
+                            setImportText("")
                             setError(null)
                           }} 
                           variant="ghost"
@@ -786,12 +2075,16 @@ Return JSON array of steps.`
                       </div>
                       {items.length > 0 && !error && (
                         <p className="text-xs text-amber-600 dark:text-amber-500">
-                          Note: This will replace your current {items.length} step{items.length !== 1 ? 's' : ''}
+                          Note: Importing asks whether to replace or merge with your current {items.length} step{items.length !== 1 ? 's' : ''}
                         </p>
                       )}
                       {!error && (
                         <p className="text-xs text-[color:var(--text-dim)]">
-                          Import a previously exported checklist
+                          {importFormat === "markdown"
+                            ? "Paste a GitHub-style task list, e.g. from a README"
+                            : importFormat === "csv"
+                              ? "Paste rows from a spreadsheet. Comma and semicolon delimiters both work."
+                              : "Import a previously exported checklist"}
                         </p>
                       )}
                     </>
@@ -800,6 +2093,35 @@ Return JSON array of steps.`
               </Card>
             )}
 
+            {/* Dependency Problems */}
+            {dependencyIssues.length > 0 && (
+              <div className="rounded-lg border border-rose-500 bg-rose-50 dark:bg-rose-950/20 px-4 py-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-rose-600 dark:text-rose-400">
+                    {dependencyIssues.length} dependency problem{dependencyIssues.length !== 1 ? 's' : ''}
+                  </p>
+                  <Button
+                    onClick={() => {
+                      const { items: repaired, messages } = repairDependencyGraph(items)
+                      setItems(repaired, { label: "Fix dependencies" })
+                      showToast(`✓ Removed ${messages.length} broken dependenc${messages.length !== 1 ? 'ies' : 'y'}`)
+                    }}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    Fix automatically
+                  </Button>
+                </div>
+                <ul className="space-y-1">
+                  {dependencyIssues.map((issue, index) => (
+                    <li key={index} className="text-xs text-rose-600 dark:text-rose-400">
+                      {describeGraphIssue(issue, items)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Checklist Items */}
             {items.length === 0 ? (
               <Card>
@@ -824,7 +2146,7 @@ Return JSON array of steps.`
                     <Button 
                       onClick={() => {
                         const newItem = createEmptyItem()
-                        setItems(prev => [...prev, newItem])
+                        setItems(prev => [...prev, newItem], { label: "Add step" })
                         setNewItemId(newItem.id)
                       }} 
                       variant="outline" 
@@ -833,26 +2155,45 @@ Return JSON array of steps.`
                       Add Step Manually
                     </Button>
                   </div>
+                  <div className="mt-8">
+                    <StarterGallery onPick={handlePickStarter} />
+                  </div>
                 </CardContent>
               </Card>
             ) : (
               <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
-                <SortableContext items={items.map(i => i.id)} strategy={verticalListSortingStrategy}>
-                  {items.map(item => (
+                <SortableContext items={builderRows.map(row => row.item.id)} strategy={verticalListSortingStrategy}>
+                  {builderRows.map(({ item, depth, childCount }) => (
                     <SortableItem
                       key={item.id}
                       item={item}
+                      depth={depth}
+                      childCount={childCount}
+                      collapsed={collapsedIds.has(item.id)}
                       allItems={items}
                       onChangeTitle={v =>
-                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, title: v } : i)))
+                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, title: v } : i)), { label: "Edit title", group: `title:${item.id}` })
                       }
                       onChangeDescription={v =>
-                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, description: v } : i)))
+                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, description: v } : i)), { label: "Edit description", group: `description:${item.id}` })
                       }
                       onChangeDependencies={deps =>
-                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, dependsOn: deps } : i)))
+                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, dependsOn: deps } : i)), { label: "Change dependencies" })
                       }
-                      onDelete={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                      onChangeLogic={patch =>
+                        setItems(prev => prev.map(i => (i.id === item.id ? { ...i, ...patch } : i)), { label: "Edit step details", group: `details:${item.id}` })
+                      }
+                      aiPreview={stepAiPreview?.itemId === item.id ? stepAiPreview : undefined}
+                      aiBusyAction={stepAiBusy?.itemId === item.id ? stepAiBusy.action : undefined}
+                      onAiAction={action => handleStepAiAction(item.id, action)}
+                      onApplyAiPreview={handleApplyStepAi}
+                      onDiscardAiPreview={() => setStepAiPreview(null)}
+                      onToggleCollapse={() => toggleCollapsed(item.id)}
+                      onIndent={indentItem(items, item.id) ? () => setItems(prev => indentItem(prev, item.id) ?? prev, { label: "Indent step" }) : undefined}
+                      onOutdent={item.parentId ? () => setItems(prev => outdentItem(prev, item.id) ?? prev, { label: "Outdent step" }) : undefined}
+                      onAddChild={() => handleAddChild(item.id)}
+                      onDelete={() => handleDeleteItem(item)}
+                      peers={peersOn(item.id)}
                     />
                   ))}
                 </SortableContext>
@@ -861,17 +2202,122 @@ Return JSON array of steps.`
           </div>
         )}
 
+        {/* Graph Mode */}
+        {mode === "graph" && (
+          items.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <p className="text-[color:var(--text-dim)] mb-4">No steps to show</p>
+                <Button onClick={() => setMode("builder")} size="sm">
+                  Go to Builder
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <DependencyGraph
+              items={items}
+              runnerState={runnerState}
+              onAddDependency={(itemId, depId) => {
+                if (items.find(i => i.id === itemId)?.dependsOn.includes(depId)) return
+                if (wouldCreateCycle(items, itemId, depId)) {
+                  showToast("⚠️ That dependency would create a cycle")
+                  return
+                }
+                setItems(prev => prev.map(i => (i.id === itemId ? { ...i, dependsOn: [...i.dependsOn, depId] } : i)), { label: "Add dependency" })
+              }}
+              onRemoveDependency={(itemId, depId) =>
+                setItems(prev => prev.map(i => (i.id === itemId ? removeStepReferences([i], depId)[0] : i)), { label: "Remove dependency" })
+              }
+            />
+          )
+        )}
+
         {/* Runner Mode */}
         {mode === "runner" && (
           <div className="space-y-4">
+            {/* Active Run */}
+            {activeChecklist && activeRun && (
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-[color:var(--text)]" data-active-run>{activeRun.name}</p>
+                  <p className="text-xs text-[color:var(--text-dim)]">
+                    Started {new Date(activeRun.startedAt).toLocaleDateString()} · {runStatusLabels[runStatus(activeRun, items)]}
+                  </p>
+                  {variables.some(v => runValues[v.name]?.trim()) && (
+                    <p className="truncate text-xs text-[color:var(--text-dim)]" data-run-values-summary>
+                      {variables.filter(v => runValues[v.name]?.trim()).map(v => `${variableLabel(v)}: ${runValues[v.name]}`).join(" · ")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Input
+                    placeholder="Your name"
+                    aria-label="Your name, recorded on completed steps"
+                    value={userName}
+                    onChange={e => handleUserNameChange(e.target.value)}
+                    className="h-9 w-32 text-sm"
+                  />
+                  {activeRun.events.length > 0 && (
+                    <Button onClick={handleExportAuditLog} variant="ghost" size="sm">
+                      Export Log
+                    </Button>
+                  )}
+                  {variables.length > 0 && (
+                    <Button onClick={() => setEditingValues(!editingValues)} variant={editingValues ? "default" : "outline"} size="sm">
+                      Details
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => setShowRuns(!showRuns)}
+                    variant={showRuns ? "default" : "outline"}
+                    size="sm"
+                  >
+                    Runs{activeChecklist.runs.length > 1 && ` (${activeChecklist.runs.length})`}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {activeRun && (editingValues || needsValues(variables, activeRun)) && (
+              <RunValuesForm
+                key={activeRun.id}
+                runName={activeRun.name}
+                variables={variables}
+                values={activeRun.values}
+                onSubmit={values => {
+                  updateActiveRun(run => ({ ...run, values }))
+                  setEditingValues(false)
+                }}
+                onCancel={() => {
+                  if (!activeRun.values) updateActiveRun(run => ({ ...run, values: {} }))
+                  setEditingValues(false)
+                }}
+              />
+            )}
+
+            {showRuns && activeChecklist && (
+              <RunPanel
+                runs={activeChecklist.runs}
+                items={items}
+                activeRunId={activeChecklist.activeRunId}
+                onStart={handleStartRun}
+                onSwitch={id => {
+                  setLibrary(prev => prev && updateChecklist(prev, prev.activeId, c => ({ ...c, activeRunId: id })))
+                  setShowRuns(false)
+                }}
+                onArchive={handleArchiveRun}
+                onClose={() => setShowRuns(false)}
+              />
+            )}
+
             {/* Progress Bar */}
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-[color:var(--text)]">Progress</span>
                   <div className="flex items-center gap-2">
-                    <span className="text-sm text-[color:var(--text-dim)]">{completedCount} of {items.length}</span>
-                    {completedCount === items.length && items.length > 0 && (
+                    <span className="text-sm text-[color:var(--text-dim)]">{completedCount} of {totalCount}{skippedCount > 0 && ` · ${skippedCount} skipped`}</span>
+                    {completedCount === totalCount && totalCount > 0 && (
                       <span className="text-xs font-medium text-[color:var(--accent-strong)]">🎉 Complete!</span>
                     )}
                   </div>
@@ -882,7 +2328,16 @@ Return JSON array of steps.`
                     style={{ width: `${progressPercent}%` }}
                   />
                 </div>
-                {completedCount === items.length && items.length > 0 && (
+                {hasEstimates && projectedFinish && (
+                  <p className="mt-3 text-xs text-[color:var(--text-dim)]" data-projected-finish={projectedFinish}>
+                    Projected finish{" "}
+                    <span className="font-medium text-[color:var(--text)]">
+                      {formatDateKey(projectedFinish, { weekday: "short", month: "short", day: "numeric" })}
+                    </span>
+                    {" "}· {formatDuration(criticalPath.remainingHours)} of work left on the critical path
+                  </p>
+                )}
+                {completedCount === totalCount && totalCount > 0 && (
                   <div className="mt-3 flex items-center justify-between">
                     <p className="text-xs text-[color:var(--accent-strong)]">
                       All tasks completed! Great work! 🎊
@@ -890,9 +2345,7 @@ Return JSON array of steps.`
                     <Button
                       onClick={() => {
                         if (confirm("Reset all checkboxes? This will uncheck all completed items.")) {
-                          setRunnerState({})
-                          setToast("✓ Checklist reset")
-                          setTimeout(() => setToast(null), 3000)
+                          handleResetProgress()
                         }
                       }}
                       variant="ghost"
@@ -930,73 +2383,70 @@ Return JSON array of steps.`
                   </div>
                   <p className="text-[color:var(--text-dim)] mb-2">Waiting on dependencies</p>
                   <p className="text-xs text-[color:var(--text-dim)]">
-                    Complete previous steps to unlock more tasks
+                    {dependencyIssues.length > 0
+                      ? "Some steps can never unlock because of dependency problems. Fix them in Builder mode."
+                      : "Complete previous steps to unlock more tasks"}
                   </p>
                 </CardContent>
               </Card>
             ) : (
               <div className="space-y-2">
-                {visibleRunnerItems.map((item, index) => {
+                <div className="flex flex-wrap items-center gap-2" data-runner-filters>
+                  {(Object.keys(runnerFilterLabels) as RunnerFilter[]).filter(f => f !== "critical" || hasEstimates).map(filter => {
+                    const count = filter === "all" ? null : visibleRunnerItems.filter(runnerFilterMatches[filter]).length
+                    return (
+                      <button
+                        key={filter}
+                        type="button"
+                        onClick={() => setRunnerFilter(filter)}
+                        className={cn(
+                          "text-xs px-3 py-1 rounded-full border transition-colors",
+                          runnerFilter === filter
+                            ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                            : filter === "overdue" && count
+                              ? "border-rose-500 text-rose-600 dark:text-rose-400"
+                              : "border-[color:var(--border)] text-[color:var(--text-dim)] hover:border-[color:var(--border-strong)]"
+                        )}
+                      >
+                        {runnerFilterLabels[filter]}{count !== null && ` (${count})`}
+                      </button>
+                    )
+                  })}
+                  {runnerFilter === "mine" && !userName.trim() && (
+                    <span className="text-xs text-[color:var(--text-dim)]">Enter your name above to see your steps</span>
+                  )}
+                </div>
+
+                {filteredRunnerRows.length === 0 && (
+                  <p className="py-6 text-center text-sm text-[color:var(--text-dim)]">No steps match this filter</p>
+                )}
+
+                {filteredRunnerRows.map(({ item, depth, childCount }) => {
                   const isCompleted = !!runnerState[item.id]
-                  const isNewlyUnlocked = index === visibleRunnerItems.length - 1 && visibleRunnerItems.length < items.length && !isCompleted
-                  
+                  const isNewlyUnlocked = item.id === visibleRunnerItems[visibleRunnerItems.length - 1]?.id && visibleRunnerItems.length < totalCount && !isCompleted
+                  const children = items.filter(i => i.parentId === item.id)
+
                   return (
-                    <label
+                    <RunnerItemCard
                       key={item.id}
-                      data-runner-item-id={item.id}
-                      className={cn(
-                        "flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-all",
-                        isCompleted
-                          ? "border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)] opacity-75"
-                          : "border-[color:var(--border)] bg-[color:var(--card)] hover:border-[color:var(--border-strong)] hover:shadow-sm",
-                        isNewlyUnlocked && "ring-2 ring-[color:var(--accent-soft-border)] animate-unlock"
-                      )}
-                    >
-                      <input
-                        type="checkbox"
-                        checked={isCompleted}
-                        onChange={() => {
-                          setRunnerState(prev => {
-                            const next = { ...prev }
-                            if (next[item.id]) {
-                              delete next[item.id]
-                            } else {
-                              next[item.id] = true
-                            }
-                            return next
-                          })
-                        }}
-                        className="mt-0.5 h-5 w-5 rounded border-[color:var(--border)] text-[color:var(--accent)]"
-                      />
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <p className={cn(
-                            "font-medium transition-all",
-                            isCompleted ? "text-[color:var(--text-dim)] line-through" : "text-[color:var(--text)]"
-                          )}>
-                            {item.title}
-                          </p>
-                          {item.aiGenerated && (
-                            <span className="text-[10px] font-medium rounded-full bg-[color:var(--accent-soft)] px-2 py-0.5 text-[color:var(--accent-strong)]">
-                              AI
-                            </span>
-                          )}
-                          {item.dependsOn.length > 0 && !isCompleted && (
-                            <span className="text-[10px] text-[color:var(--text-dim)] opacity-60">
-                              🔒 {item.dependsOn.length} dependencies
-                            </span>
-                          )}
-                        </div>
-                        {item.description && (
-                          <p className={cn(
-                            "text-sm mt-1 transition-all",
-                            isCompleted ? "text-[color:var(--text-dim)] opacity-50" : "text-[color:var(--text-dim)]"
-                          )}>
-                            {item.description}
-                          </p>
-                        )}
-                      </div>
-                    </label>
+                      item={fillItem(item, runValues)}
+                      depth={depth}
+                      subSteps={childCount > 0
+                        ? { done: children.filter(c => stepStates.get(c.id) === "done").length, total: children.filter(c => stepStates.get(c.id) !== "skipped").length }
+                        : undefined}
+                      collapsed={collapsedIds.has(item.id)}
+                      onToggleCollapse={() => toggleCollapsed(item.id)}
+                      completion={runnerState[item.id]}
+                      dueKey={dueKeys.get(item.id)}
+                      overdue={isStepOverdue(item.id)}
+                      timing={hasEstimates && !isCompleted && childCount === 0 ? criticalPath.steps.get(item.id) : undefined}
+                      events={activeRun?.events.filter(e => e.itemId === item.id) ?? []}
+                      highlighted={isNewlyUnlocked}
+                      onToggle={() => handleToggleStep(item.id)}
+                      onAnswer={answer => updateActiveRun(run => answerStep(run, item.id, answer, userName))}
+                      onNote={note => updateActiveRun(run => setCompletionNote(run, item.id, note, userName))}
+                      peers={peersOn(item.id)}
+                    />
                   )
                 })}
               </div>
@@ -1005,19 +2455,17 @@ Return JSON array of steps.`
             {/* Quick Actions */}
             {items.length > 0 && (
               <div className="flex gap-2 pt-2">
-                {completedCount > 0 && completedCount < items.length && (
+                {completedCount > 0 && completedCount < totalCount && (
                   <Button
                     onClick={() => {
                       if (confirm("Mark all visible steps as complete?")) {
-                        setRunnerState(prev => {
-                          const next = { ...prev }
-                          visibleRunnerItems.forEach(item => {
-                            next[item.id] = true
-                          })
-                          return next
-                        })
-                        setToast("✓ All visible steps completed")
-                        setTimeout(() => setToast(null), 3000)
+                        // Questions need a real answer and parents complete on their own, so both are skipped here
+                        const ids = filteredRunnerRows
+                          .map(row => row.item)
+                          .filter(item => !item.answers && !items.some(i => i.parentId === item.id))
+                          .map(item => item.id)
+                        updateActiveRun(run => completeSteps(run, ids, userName))
+                        showToast("✓ All visible steps completed")
                       }
                     }}
                     variant="outline"
@@ -1030,9 +2478,7 @@ Return JSON array of steps.`
                   <Button
                     onClick={() => {
                       if (confirm("Clear all completed items?")) {
-                        setRunnerState({})
-                        setToast("✓ Progress reset")
-                        setTimeout(() => setToast(null), 3000)
+                        handleResetProgress()
                       }
                     }}
                     variant="ghost"
@@ -1051,7 +2497,23 @@ Return JSON array of steps.`
       {toast && (
         <div className="fixed bottom-6 right-6 z-50 animate-in slide-in-from-bottom-5 fade-in duration-300">
           <div className="rounded-lg border border-[color:var(--border)] bg-[color:var(--card)] px-4 py-3 shadow-lg backdrop-blur-sm">
-            <p className="text-sm font-medium text-[color:var(--text)]">{toast}</p>
+            <div className="flex items-center gap-3">
+              <p className="text-sm font-medium text-[color:var(--text)]">{toast}</p>
+              {/* Only while the announced change is still the one Undo would revert */}
+              {toast === undoToast?.message && undoToast.entry && history.past[history.past.length - 1] === undoToast.entry && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    handleUndo()
+                    setUndoToast(null)
+                  }}
+                  className="text-sm font-medium text-[color:var(--accent-strong)] hover:underline"
+                  data-toast-undo
+                >
+                  Undo
+                </button>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -0,0 +1,134 @@
+'use client'
+
+import { ChecklistItem } from "@/types/checklist"
+import { GenerationReport } from "@/lib/ai"
+import { findDuplicate, Suggestion } from "@/lib/ai-merge"
+import { GenerationReportDetails } from "@/components/generation-report"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+
+/**
+ * Generated steps wait here until they're accepted, edited or rejected one
+ * by one. Nothing reaches the checklist until "Add" is clicked.
+ */
+export function AiReviewTray({
+  suggestions,
+  existing,
+  destination,
+  report,
+  onChange,
+  onApply,
+  onDiscard
+}: {
+  suggestions: Suggestion[]
+  existing: ChecklistItem[]
+  destination: string  // e.g. "Appended to the end"
+  report: GenerationReport | null
+  onChange: (suggestions: Suggestion[]) => void
+  onApply: () => void
+  onDiscard: () => void
+}) {
+  const acceptedCount = suggestions.filter(s => s.accepted).length
+  const titleOf = (id: string) =>
+    existing.find(i => i.id === id)?.title ?? suggestions.find(s => s.item.id === id)?.item.title ?? "Untitled"
+
+  const update = (id: string, change: (s: Suggestion) => Suggestion) =>
+    onChange(suggestions.map(s => (s.item.id === id ? change(s) : s)))
+
+  const editTitle = (id: string, title: string) =>
+    update(id, s => ({ ...s, item: { ...s.item, title }, duplicateOf: findDuplicate(title, existing)?.id }))
+
+  return (
+    <Card data-review-tray>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium text-[color:var(--text)]">Review suggestions</p>
+            <p className="text-xs text-[color:var(--text-dim)] mt-1">
+              {acceptedCount} of {suggestions.length} accepted · {destination}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-2 text-xs text-[color:var(--text-dim)]">
+            <button type="button" onClick={() => onChange(suggestions.map(s => ({ ...s, accepted: true })))} className="hover:text-[color:var(--text)]">
+              Accept all
+            </button>
+            <button type="button" onClick={() => onChange(suggestions.map(s => ({ ...s, accepted: false })))} className="hover:text-[color:var(--text)]">
+              Reject all
+            </button>
+          </div>
+        </div>
+
+        <GenerationReportDetails report={report} />
+
+        <div className="space-y-2">
+          {suggestions.map(({ item, accepted, duplicateOf }) => {
+            const dependents = suggestions.filter(s => s.accepted && s.item.dependsOn.includes(item.id)).length
+            return (
+              <div
+                key={item.id}
+                data-suggestion={item.title}
+                className={cn(
+                  "rounded-lg border p-3 space-y-1 transition-colors",
+                  accepted
+                    ? "border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)]"
+                    : "border-dashed border-[color:var(--border)] opacity-60"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={item.title}
+                    onChange={e => editTitle(item.id, e.target.value)}
+                    aria-label="Suggested step title"
+                    className="h-8 flex-1 border-0 bg-transparent px-0 font-medium focus-visible:ring-0 focus-visible:ring-offset-0"
+                  />
+                  <Button
+                    onClick={() => update(item.id, s => ({ ...s, accepted: !s.accepted }))}
+                    variant={accepted ? "outline" : "ghost"}
+                    size="sm"
+                  >
+                    {accepted ? "Reject" : "Accept"}
+                  </Button>
+                </div>
+                <Textarea
+                  value={item.description ?? ""}
+                  onChange={e => update(item.id, s => ({ ...s, item: { ...s.item, description: e.target.value } }))}
+                  rows={1}
+                  placeholder="Add description..."
+                  className="text-xs border-0 bg-transparent px-0 resize-none focus-visible:ring-0 focus-visible:ring-offset-0"
+                />
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-[color:var(--text-dim)]">
+                  {item.dependsOn.length > 0 && (
+                    <span>After {item.dependsOn.map(titleOf).join(", ")}</span>
+                  )}
+                  {duplicateOf && (
+                    <span className="font-medium text-amber-700 dark:text-amber-400" data-duplicate>
+                      Duplicate of “{titleOf(duplicateOf)}”
+                    </span>
+                  )}
+                  {!accepted && dependents > 0 && (
+                    <span>
+                      {dependents} accepted step{dependents === 1 ? " depends" : "s depend"} on this
+                      {duplicateOf ? " and will use the existing step" : " and will lose that dependency"}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={onApply} disabled={acceptedCount === 0} className="flex-1">
+            Add {acceptedCount} step{acceptedCount === 1 ? "" : "s"}
+          </Button>
+          <Button onClick={onDiscard} variant="ghost">
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
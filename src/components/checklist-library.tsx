@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from "react"
+import { Checklist, ChecklistLibrary } from "@/types/checklist"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import { runProgress } from "@/lib/runs"
+
+export function ChecklistLibraryPanel({
+  library,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onDelete,
+  onClose
+}: {
+  library: ChecklistLibrary
+  onSelect: (id: string) => void
+  onCreate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onArchive: (id: string, archived: boolean) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}) {
+  const [newName, setNewName] = useState("")
+  const [showArchived, setShowArchived] = useState(false)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+
+  const archivedCount = library.checklists.filter(c => c.archived).length
+  const visible = library.checklists.filter(c => showArchived || !c.archived)
+
+  const startRename = (checklist: Checklist) => {
+    setRenamingId(checklist.id)
+    setRenameValue(checklist.name)
+  }
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim())
+    }
+    setRenamingId(null)
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm font-medium text-[color:var(--text)]">Checklists</p>
+            <p className="text-xs text-[color:var(--text-dim)] mt-1">
+              Each checklist keeps its own steps and runner progress
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+            aria-label="Close checklists"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M6 6l8 8M14 6l-8 8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+            </svg>
+          </button>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault()
+            onCreate(newName)
+            setNewName("")
+          }}
+        >
+          <Input
+            placeholder="New checklist name"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            className="text-sm"
+          />
+          <Button type="submit" size="sm" className="h-9">
+            + New
+          </Button>
+        </form>
+
+        <div className="space-y-1">
+          {visible.map(checklist => {
+            const isActive = checklist.id === library.activeId
+            const activeRun = checklist.runs.find(r => r.id === checklist.activeRunId)
+            const done = activeRun ? runProgress(activeRun, checklist.items).done : 0
+            return (
+              <div
+                key={checklist.id}
+                data-checklist-id={checklist.id}
+                className={cn(
+                  "group flex items-center gap-2 rounded-lg border px-3 py-2 transition-colors",
+                  isActive
+                    ? "border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)]"
+                    : "border-[color:var(--border)] hover:border-[color:var(--border-strong)]",
+                  checklist.archived && "opacity-60"
+                )}
+              >
+                {renamingId === checklist.id ? (
+                  <Input
+                    autoFocus
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === "Enter") commitRename()
+                      if (e.key === "Escape") setRenamingId(null)
+                    }}
+                    className="h-8 flex-1 text-sm"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onSelect(checklist.id)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <span className="block truncate text-sm font-medium text-[color:var(--text)]">
+                      {checklist.name}
+                      {checklist.archived && (
+                        <span className="ml-2 text-[10px] font-normal text-[color:var(--text-dim)]">Archived</span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-[color:var(--text-dim)]">
+                      {checklist.items.length} step{checklist.items.length !== 1 ? 's' : ''}
+                      {checklist.runs.length > 1 && ` · ${checklist.runs.length} runs`}
+                      {done > 0 && ` · ${done} done`}
+                    </span>
+                  </button>
+                )}
+                <div className="flex shrink-0 gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button variant="ghost" size="sm" onClick={() => startRename(checklist)}>
+                    Rename
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onDuplicate(checklist.id)}>
+                    Duplicate
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onArchive(checklist.id, !checklist.archived)}>
+                    {checklist.archived ? "Restore" : "Archive"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:text-rose-500"
+                    onClick={() => {
+                      if (confirm(`Delete "${checklist.name}"? Its steps and runner progress will be lost.`)) {
+                        onDelete(checklist.id)
+                      }
+                    }}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {archivedCount > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+          >
+            {showArchived ? "Hide archived" : `Show archived (${archivedCount})`}
+          </button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { CSV_FIELDS, CsvColumnMapping } from "@/lib/csv"
+
+export function CsvImportMapping({
+  rows,
+  mapping,
+  hasHeader,
+  messages,
+  onChangeMapping,
+  onChangeHasHeader
+}: {
+  rows: string[][]
+  mapping: CsvColumnMapping
+  hasHeader: boolean
+  messages: string[]
+  onChangeMapping: (mapping: CsvColumnMapping) => void
+  onChangeHasHeader: (hasHeader: boolean) => void
+}) {
+  const columnCount = Math.max(0, ...rows.map(r => r.length))
+  const headers = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && rows[0]?.[index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`
+  )
+  const sample = (hasHeader ? rows.slice(1) : rows).filter(r => r.some(value => value.trim())).slice(0, 3)
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-xs text-[color:var(--text-dim)]">
+        <input
+          type="checkbox"
+          checked={hasHeader}
+          onChange={e => onChangeHasHeader(e.target.checked)}
+          className="h-4 w-4"
+        />
+        First row is a header
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {CSV_FIELDS.map(({ field, label, required }) => (
+          <label key={field} className="flex items-center justify-between gap-2 text-xs text-[color:var(--text)]">
+            <span>
+              {label}
+              {required && <span className="text-rose-500"> *</span>}
+            </span>
+            <select
+              value={mapping[field] ?? ""}
+              onChange={e => onChangeMapping({ ...mapping, [field]: e.target.value === "" ? null : Number(e.target.value) })}
+              className="h-8 w-40 rounded-md border border-[color:var(--input-border)] bg-[color:var(--input-bg)] px-2 text-xs text-[color:var(--text)]"
+            >
+              {!required && <option value="">Not in file</option>}
+              {headers.map((header, index) => (
+                <option key={index} value={index}>{header}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {sample.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-[color:var(--border)]">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-[color:var(--card-soft)] text-[color:var(--text-dim)]">
+              <tr>
+                {headers.map((header, index) => (
+                  <th key={index} className="px-2 py-1.5 font-medium whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sample.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-[color:var(--border)] text-[color:var(--text)]">
+                  {headers.map((_, index) => (
+                    <td key={index} className="px-2 py-1.5 max-w-[12rem] truncate">{row[index] ?? ""}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto rounded-lg border border-amber-500 bg-amber-50 dark:bg-amber-950/20 px-3 py-2 space-y-1">
+          {messages.map((message, index) => (
+            <li key={index} className="text-xs text-amber-700 dark:text-amber-400">{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import { useMemo, useRef, useState } from "react"
+import { ChecklistItem, RunnerState } from "@/types/checklist"
+import { computeDependencyDepths } from "@/lib/graph"
+import { evaluateSteps, StepState } from "@/lib/dependencies"
+import { cn } from "@/lib/utils"
+
+type NodeStatus = StepState
+type EdgeKind = "all" | "any" | "condition"
+
+const NODE_WIDTH = 180
+const NODE_HEIGHT = 56
+const COLUMN_GAP = 72
+const ROW_GAP = 20
+const PADDING = 24
+
+const statusStyles: Record<NodeStatus, { fill: string; stroke: string; label: string }> = {
+  done: { fill: "var(--accent-soft)", stroke: "var(--accent)", label: "Done" },
+  available: { fill: "var(--card)", stroke: "var(--text-dim)", label: "Available" },
+  locked: { fill: "var(--bg-muted)", stroke: "var(--border-strong)", label: "Locked" },
+  skipped: { fill: "var(--card-soft)", stroke: "var(--border)", label: "Skipped" }
+}
+
+// Any-of edges are dashed and condition edges dotted so branches read at a glance
+const edgeDash: Record<EdgeKind, string | undefined> = {
+  all: undefined,
+  any: "6 4",
+  condition: "2 3"
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+export function DependencyGraph({
+  items,
+  runnerState,
+  onAddDependency,
+  onRemoveDependency
+}: {
+  items: ChecklistItem[]
+  runnerState: RunnerState
+  onAddDependency: (itemId: string, depId: string) => void
+  onRemoveDependency: (itemId: string, depId: string) => void
+}) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [dragFrom, setDragFrom] = useState<string | null>(null)
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null)
+  const [hoveredEdge, setHoveredEdge] = useState<string | null>(null)
+
+  const layout = useMemo(() => {
+    const depths = computeDependencyDepths(items)
+    const columns: ChecklistItem[][] = []
+    items.forEach(item => {
+      const depth = depths.get(item.id) ?? 0
+      ;(columns[depth] ??= []).push(item)
+    })
+
+    const positions = new Map<string, { x: number; y: number }>()
+    columns.forEach((column, depth) => {
+      column?.forEach((item, row) => {
+        positions.set(item.id, {
+          x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+        })
+      })
+    })
+
+    const tallest = Math.max(1, ...columns.map(c => c?.length ?? 0))
+    return {
+      positions,
+      width: PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP,
+      height: PADDING * 2 + tallest * NODE_HEIGHT + (tallest - 1) * ROW_GAP
+    }
+  }, [items])
+
+  const states = useMemo(() => evaluateSteps(items, runnerState), [items, runnerState])
+  const statusOf = (item: ChecklistItem): NodeStatus => states.get(item.id) ?? "locked"
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const edges = items.flatMap(item => {
+    const refs: { dep: string; kind: EdgeKind }[] = [
+      ...item.dependsOn.map(dep => ({ dep, kind: "all" as const })),
+      ...(item.anyOf ?? []).flat().map(dep => ({ dep, kind: "any" as const })),
+      ...(item.conditions ?? []).map(c => ({ dep: c.stepId, kind: "condition" as const }))
+    ]
+    const seen = new Set<string>()
+    return refs
+      .filter(({ dep }) => {
+        if (!layout.positions.has(dep) || seen.has(dep)) return false
+        seen.add(dep)
+        return true
+      })
+      .map(({ dep, kind }) => ({ key: `${dep}->${item.id}`, from: dep, to: item.id, kind }))
+  })
+
+  const dragOrigin = dragFrom ? layout.positions.get(dragFrom) : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-[color:var(--text-dim)]">
+        {(Object.keys(statusStyles) as NodeStatus[]).map(status => (
+          <span key={status} className="flex items-center gap-1.5">
+            <span
+              className="inline-block h-3 w-3 rounded-sm border"
+              style={{ background: statusStyles[status].fill, borderColor: statusStyles[status].stroke }}
+            />
+            {statusStyles[status].label}
+          </span>
+        ))}
+        <span>- - any of</span>
+        <span>··· condition</span>
+        <span className="ml-auto">Drag from one step onto another to add a dependency. Click an edge to remove it.</span>
+      </div>
+
+      <div className="overflow-auto rounded-2xl border border-[color:var(--border-strong)] bg-[color:var(--card-soft)]">
+        <svg
+          ref={svgRef}
+          width={layout.width}
+          height={layout.height}
+          className={cn("block select-none", dragFrom && "cursor-crosshair")}
+          onPointerMove={e => {
+            if (dragFrom) setPointer(toSvgPoint(e))
+          }}
+          onPointerUp={() => {
+            setDragFrom(null)
+            setPointer(null)
+          }}
+          onPointerLeave={() => {
+            setDragFrom(null)
+            setPointer(null)
+          }}
+        >
+          <defs>
+            <marker id="graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M0 0L10 5L0 10z" fill="var(--text-dim)" />
+            </marker>
+            <marker id="graph-arrow-hover" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M0 0L10 5L0 10z" fill="#f43f5e" />
+            </marker>
+          </defs>
+
+          {edges.map(edge => {
+            const from = layout.positions.get(edge.from)!
+            const to = layout.positions.get(edge.to)!
+            const x1 = from.x + NODE_WIDTH
+            const y1 = from.y + NODE_HEIGHT / 2
+            const x2 = to.x
+            const y2 = to.y + NODE_HEIGHT / 2
+            const bend = Math.max(40, Math.abs(x2 - x1) / 2)
+            const path = `M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`
+            const isHovered = hoveredEdge === edge.key
+            return (
+              <g
+                key={edge.key}
+                className="cursor-pointer"
+                data-graph-edge={edge.key}
+                onPointerEnter={() => setHoveredEdge(edge.key)}
+                onPointerLeave={() => setHoveredEdge(null)}
+                onClick={() => {
+                  setHoveredEdge(null)
+                  onRemoveDependency(edge.to, edge.from)
+                }}
+              >
+                <title>Click to remove this dependency</title>
+                <path d={path} fill="none" stroke="transparent" strokeWidth={14} />
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={isHovered ? "#f43f5e" : "var(--text-dim)"}
+                  strokeWidth={isHovered ? 2 : 1.5}
+                  strokeDasharray={edgeDash[edge.kind]}
+                  markerEnd={isHovered ? "url(#graph-arrow-hover)" : "url(#graph-arrow)"}
+                />
+              </g>
+            )
+          })}
+
+          {dragOrigin && pointer && (
+            <line
+              x1={dragOrigin.x + NODE_WIDTH}
+              y1={dragOrigin.y + NODE_HEIGHT / 2}
+              x2={pointer.x}
+              y2={pointer.y}
+              stroke="var(--accent)"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              pointerEvents="none"
+            />
+          )}
+
+          {items.map(item => {
+            const position = layout.positions.get(item.id)!
+            const status = statusOf(item)
+            const style = statusStyles[status]
+            const isDropTarget = dragFrom !== null && dragFrom !== item.id
+            return (
+              <g
+                key={item.id}
+                data-graph-node={item.id}
+                transform={`translate(${position.x}, ${position.y})`}
+                className={cn("cursor-grab", dragFrom && "cursor-crosshair")}
+                onPointerDown={e => {
+                  e.preventDefault()
+                  setDragFrom(item.id)
+                  setPointer(toSvgPoint(e))
+                }}
+                onPointerUp={() => {
+                  // Dropping A onto B means B depends on A.
+                  if (dragFrom && dragFrom !== item.id) onAddDependency(item.id, dragFrom)
+                }}
+              >
+                <title>{item.title || "Untitled"}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={10}
+                  fill={style.fill}
+                  stroke={isDropTarget ? "var(--accent)" : style.stroke}
+                  strokeWidth={isDropTarget ? 2 : 1}
+                  strokeDasharray={status === "locked" ? "4 3" : undefined}
+                />
+                <text x={12} y={24} fontSize={13} fontWeight={500} fill="var(--text)">
+                  {truncate(item.title || "Untitled", 22)}
+                </text>
+                <text x={12} y={42} fontSize={11} fill="var(--text-dim)">
+                  {status === "done"
+                    ? "✓ Done"
+                    : status === "available"
+                      ? "Available"
+                      : status === "skipped"
+                        ? "Skipped"
+                        : `🔒 ${item.dependsOn.length} dependencies`}
+                </text>
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from "react"
+import { ChecklistItem } from "@/types/checklist"
+import { GenerationReport } from "@/lib/ai"
+import { applyDependencySuggestions, DependencySuggestion, edgeKey } from "@/lib/ai-dependencies"
+import { wouldCreateCycle } from "@/lib/graph"
+import { GenerationReportDetails } from "@/components/generation-report"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+
+/**
+ * Proposed dependencies as a diff, approved one edge at a time. An edge that
+ * would close a cycle with the current graph plus the edges approved so far
+ * can't be approved.
+ */
+export function DependencySuggestions({
+  items,
+  edges,
+  report,
+  onApply,
+  onDiscard
+}: {
+  items: ChecklistItem[]
+  edges: DependencySuggestion[]
+  report: GenerationReport | null
+  onApply: (edges: DependencySuggestion[]) => void
+  onDiscard: () => void
+}) {
+  const [approved, setApproved] = useState<Set<string>>(() => new Set())
+  const titleOf = (id: string) => items.find(i => i.id === id)?.title || "Untitled"
+
+  // Approved edges in list order, optionally leaving one out
+  const approvedEdges = (except?: string) => edges.filter(e => approved.has(edgeKey(e)) && edgeKey(e) !== except)
+
+  const blockedReason = (edge: DependencySuggestion) => {
+    const withApproved = applyDependencySuggestions(items, approvedEdges(edgeKey(edge))).items
+    return wouldCreateCycle(withApproved, edge.itemId, edge.depId)
+      ? approvedEdges().length > 0 ? "Would create a cycle with the graph or the edges approved so far" : "Would create a cycle"
+      : null
+  }
+
+  const toggle = (edge: DependencySuggestion) => {
+    const next = new Set(approved)
+    if (next.has(edgeKey(edge))) next.delete(edgeKey(edge))
+    else next.add(edgeKey(edge))
+    setApproved(next)
+  }
+
+  const approveAllSafe = () => {
+    const { applied } = applyDependencySuggestions(items, edges)
+    setApproved(new Set(applied.map(edgeKey)))
+  }
+
+  return (
+    <Card data-dependency-suggestions>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium text-[color:var(--text)]">Suggested dependencies</p>
+            <p className="text-xs text-[color:var(--text-dim)] mt-1">
+              {edges.length === 0
+                ? "The AI didn't find any missing dependencies."
+                : `${approved.size} of ${edges.length} approved. Nothing changes until you apply.`}
+            </p>
+          </div>
+          {edges.length > 0 && (
+            <button type="button" onClick={approveAllSafe} className="shrink-0 text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)]">
+              Approve all safe
+            </button>
+          )}
+        </div>
+
+        <GenerationReportDetails report={report} />
+
+        <ul className="space-y-2">
+          {edges.map(edge => {
+            const isApproved = approved.has(edgeKey(edge))
+            const blocked = blockedReason(edge)
+            return (
+              <li
+                key={edgeKey(edge)}
+                data-suggested-edge={edgeKey(edge)}
+                className={cn(
+                  "flex items-start gap-3 rounded-lg border p-3",
+                  isApproved
+                    ? "border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)]"
+                    : "border-[color:var(--border)]",
+                  blocked && "border-rose-500"
+                )}
+              >
+                <span className={cn("font-mono text-sm", isApproved ? "text-[color:var(--accent-strong)]" : "text-[color:var(--text-dim)]")}>+</span>
+                <div className="flex-1 space-y-1">
+                  <p className="text-sm text-[color:var(--text)]">
+                    <span className="font-medium">{titleOf(edge.itemId)}</span>
+                    <span className="text-[color:var(--text-dim)]"> waits for </span>
+                    <span className="font-medium">{titleOf(edge.depId)}</span>
+                  </p>
+                  <p className="text-xs text-[color:var(--text-dim)]">{edge.rationale}</p>
+                  {blocked && <p className="text-xs text-rose-600 dark:text-rose-400">{blocked}</p>}
+                </div>
+                <Button
+                  onClick={() => toggle(edge)}
+                  disabled={!!blocked}
+                  variant={isApproved ? "default" : "outline"}
+                  size="sm"
+                >
+                  {isApproved ? "Approved" : "Approve"}
+                </Button>
+              </li>
+            )
+          })}
+        </ul>
+
+        <div className="flex gap-2">
+          <Button onClick={() => onApply(approvedEdges())} disabled={approved.size === 0} className="flex-1">
+            Apply {approved.size} dependenc{approved.size === 1 ? "y" : "ies"}
+          </Button>
+          <Button onClick={onDiscard} variant="ghost">
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,21 @@
+'use client'
+
+import { GenerationReport } from "@/lib/ai"
+
+/** Collapsible list of what was repaired or dropped from an AI reply. Renders nothing for a clean reply. */
+export function GenerationReportDetails({ report }: { report: GenerationReport | null }) {
+  if (!report || (report.repaired.length === 0 && report.dropped.length === 0)) return null
+  return (
+    <details className="rounded-lg border border-[color:var(--border)] px-3 py-2 text-xs text-[color:var(--text-dim)]" data-generation-report>
+      <summary className="cursor-pointer text-[color:var(--text)]">
+        The AI reply needed fixing ({report.repaired.length} repaired, {report.dropped.length} dropped)
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {report.repaired.map((message, index) => <li key={`r${index}`}>{message}</li>)}
+        {report.dropped.map((message, index) => (
+          <li key={`d${index}`} className="text-rose-600 dark:text-rose-400">{message}</li>
+        ))}
+      </ul>
+    </details>
+  )
+}
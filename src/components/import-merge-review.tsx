@@ -0,0 +1,174 @@
+'use client'
+
+import { DueDate, StepCondition } from "@/types/checklist"
+import {
+  defaultMergeChoices,
+  fieldChoiceKey,
+  ItemDiff,
+  MergeChoices,
+  MergeField,
+  mergeFieldLabels,
+  MergeSide
+} from "@/lib/import-merge"
+import { describeDue, formatEstimate } from "@/lib/schedule"
+import { cn } from "@/lib/utils"
+
+function formatValue(field: MergeField, value: unknown, titleOf: (id: string) => string): string {
+  if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return field === "parentId" ? "Top level" : "—"
+  }
+  switch (field) {
+    case "parentId":
+      return titleOf(value as string)
+    case "dependsOn":
+      return (value as string[]).map(titleOf).join(", ")
+    case "anyOf":
+      return (value as string[][]).map(group => group.map(titleOf).join(" or ")).join("; ")
+    case "answers":
+      return (value as string[]).join(" / ")
+    case "conditions":
+      return (value as StepCondition[]).map(c => `${titleOf(c.stepId)} = ${c.equals}`).join("; ")
+    case "due":
+      return describeDue(value as DueDate)
+    case "estimateHours":
+      return formatEstimate(value as number)
+    default:
+      return String(value)
+  }
+}
+
+function SidePicker({
+  value,
+  options,
+  onChange
+}: {
+  value: MergeSide
+  options: Record<MergeSide, string>
+  onChange: (side: MergeSide) => void
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-1">
+      {(["current", "incoming"] as const).map(side => (
+        <button
+          key={side}
+          type="button"
+          onClick={() => onChange(side)}
+          data-side={side}
+          data-selected={value === side || undefined}
+          className={cn(
+            "rounded-md border px-2 py-1 text-left text-xs transition-colors",
+            value === side
+              ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+              : "border-[color:var(--border)] text-[color:var(--text-dim)] hover:border-[color:var(--border-strong)]"
+          )}
+        >
+          <span className="block text-[10px] uppercase tracking-wide opacity-70">{side === "current" ? "Mine" : "Theirs"}</span>
+          <span className="break-words">{options[side]}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+const kindStyles: Record<Exclude<ItemDiff["kind"], "unchanged">, string> = {
+  added: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400",
+  removed: "bg-rose-100 text-rose-700 dark:bg-rose-950/40 dark:text-rose-400",
+  changed: "bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400"
+}
+
+/**
+ * Per-step diff between the checklist and an imported version of it. Every
+ * added step, removed step and changed field is a conflict with a side to
+ * pick; the rest is merged as is.
+ */
+export function ImportMergeReview({
+  diffs,
+  choices,
+  onChangeChoices
+}: {
+  diffs: ItemDiff[]
+  choices: MergeChoices
+  onChangeChoices: (choices: MergeChoices) => void
+}) {
+  const titles = new Map<string, string>()
+  diffs.forEach(diff => {
+    const title = diff.kind === "added" ? diff.incoming.title : diff.current.title
+    titles.set(diff.key, title || "Untitled")
+  })
+  const titleOf = (id: string) => titles.get(id) ?? "Unknown step"
+  const pick = (key: string): MergeSide => choices[key] ?? "incoming"
+  const choose = (key: string, side: MergeSide) => onChangeChoices({ ...choices, [key]: side })
+
+  const count = (kind: ItemDiff["kind"]) => diffs.filter(d => d.kind === kind).length
+  const conflicts = diffs.filter(d => d.kind !== "unchanged")
+
+  return (
+    <div className="space-y-3" data-import-merge>
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-xs text-[color:var(--text-dim)]">
+          {count("added")} added · {count("removed")} removed · {count("changed")} changed · {count("unchanged")} unchanged.
+          Progress is kept for steps that end up unchanged.
+        </p>
+        {conflicts.length > 0 && (
+          <div className="flex shrink-0 gap-2 text-xs text-[color:var(--text-dim)]">
+            <button type="button" onClick={() => onChangeChoices(defaultMergeChoices(diffs, "current"))} className="hover:text-[color:var(--text)]">
+              Keep all mine
+            </button>
+            <button type="button" onClick={() => onChangeChoices(defaultMergeChoices(diffs, "incoming"))} className="hover:text-[color:var(--text)]">
+              Take all theirs
+            </button>
+          </div>
+        )}
+      </div>
+
+      {conflicts.length === 0 && (
+        <p className="text-sm text-[color:var(--text)]">The imported checklist matches this one. Nothing to merge.</p>
+      )}
+
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {conflicts.map(diff => {
+          const title = diff.kind === "added" ? diff.incoming.title : diff.current.title
+          return (
+            <div key={diff.key} data-merge-diff={diff.kind} data-merge-key={diff.key} className="rounded-lg border border-[color:var(--border)] p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className={cn("rounded-full px-2 py-0.5 text-[10px] font-medium capitalize", kindStyles[diff.kind])}>{diff.kind}</span>
+                <span className="text-sm font-medium text-[color:var(--text)]">{title || "Untitled"}</span>
+                {diff.kind === "changed" && diff.matchedBy === "title" && (
+                  <span className="text-[11px] text-[color:var(--text-dim)]">matched by title</span>
+                )}
+              </div>
+
+              {diff.kind === "added" && (
+                <SidePicker
+                  value={pick(diff.key)}
+                  options={{ current: "Leave it out", incoming: "Add this step" }}
+                  onChange={side => choose(diff.key, side)}
+                />
+              )}
+              {diff.kind === "removed" && (
+                <SidePicker
+                  value={pick(diff.key)}
+                  options={{ current: "Keep this step", incoming: "Remove it" }}
+                  onChange={side => choose(diff.key, side)}
+                />
+              )}
+              {diff.kind === "changed" && diff.changes.map(change => (
+                <div key={change.field} className="space-y-1" data-merge-field={change.field}>
+                  <p className="text-[11px] text-[color:var(--text-dim)]">{mergeFieldLabels[change.field]}</p>
+                  <SidePicker
+                    value={pick(fieldChoiceKey(diff.key, change.field))}
+                    options={{
+                      current: formatValue(change.field, change.current, titleOf),
+                      incoming: formatValue(change.field, change.incoming, titleOf)
+                    }}
+                    onChange={side => choose(fieldChoiceKey(diff.key, change.field), side)}
+                  />
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { Presence, peerColor, peerInitials } from "@/lib/collaboration"
+import { CollaborationStatus } from "@/lib/use-collaboration"
+import { cn } from "@/lib/utils"
+
+const modeLabels: Record<Presence["mode"], string> = {
+  builder: "the builder",
+  runner: "the runner",
+  graph: "the graph"
+}
+
+function describePeer(peer: Presence, stepTitle: (id: string) => string | undefined): string {
+  const title = peer.stepId && stepTitle(peer.stepId)
+  if (!title) return `${peer.name} is in ${modeLabels[peer.mode]}`
+  return `${peer.name} is ${peer.activity} “${title}”`
+}
+
+function Avatar({ peer, label, small }: { peer: Presence; label: string; small?: boolean }) {
+  return (
+    <span
+      title={label}
+      aria-label={label}
+      data-peer={peer.clientId}
+      style={{ backgroundColor: peerColor(peer.clientId) }}
+      className={cn(
+        "inline-flex shrink-0 items-center justify-center rounded-full font-semibold text-white ring-2 ring-[color:var(--card)]",
+        small ? "h-5 w-5 text-[9px]" : "h-7 w-7 text-[11px]",
+        peer.activity === "editing" && "animate-pulse"
+      )}
+    >
+      {peerInitials(peer.name)}
+    </span>
+  )
+}
+
+/** Who else has this checklist open, for the header. */
+export function PresenceList({
+  status,
+  peers,
+  stepTitle
+}: {
+  status: CollaborationStatus
+  peers: Presence[]
+  stepTitle: (id: string) => string | undefined
+}) {
+  return (
+    <div className="flex items-center gap-2" data-presence={status}>
+      <span className="flex items-center gap-1.5 text-[10px] text-[color:var(--text-dim)]">
+        <span
+          className={cn(
+            "inline-block h-1.5 w-1.5 rounded-full",
+            status === "live" && "bg-emerald-500",
+            status === "connecting" && "bg-amber-500 animate-pulse",
+            status === "offline" && "bg-[color:var(--text-dim)]"
+          )}
+        />
+        {status === "live"
+          ? peers.length === 0 ? "Live, only you here" : `Live with ${peers.length} other${peers.length === 1 ? "" : "s"}`
+          : status === "connecting" ? "Joining live session…" : "Live session unavailable"}
+      </span>
+      {peers.length > 0 && (
+        <div className="flex -space-x-1.5">
+          {peers.map(peer => (
+            <Avatar key={peer.clientId} peer={peer} label={describePeer(peer, stepTitle)} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Small avatars on a step for everyone currently on it. */
+export function StepPresence({ peers }: { peers: Presence[] }) {
+  if (peers.length === 0) return null
+  return (
+    <span className="flex shrink-0 -space-x-1" data-step-presence>
+      {peers.map(peer => (
+        <Avatar key={peer.clientId} peer={peer} label={`${peer.name} is ${peer.activity} this step`} small />
+      ))}
+    </span>
+  )
+}
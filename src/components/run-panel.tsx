@@ -0,0 +1,204 @@
+'use client'
+
+import { useState } from "react"
+import { ChecklistItem, ChecklistRun } from "@/types/checklist"
+import { runProgress, runStatus, runStatusLabels } from "@/lib/runs"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+}
+
+export function RunPanel({
+  runs,
+  items,
+  activeRunId,
+  onStart,
+  onSwitch,
+  onArchive,
+  onClose
+}: {
+  runs: ChecklistRun[]
+  items: ChecklistItem[]
+  activeRunId: string
+  onStart: (name: string) => void
+  onSwitch: (id: string) => void
+  onArchive: (id: string, archived: boolean) => void
+  onClose: () => void
+}) {
+  const [newName, setNewName] = useState("")
+  const [showArchived, setShowArchived] = useState(false)
+  const [comparing, setComparing] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>(() => runs.filter(r => !r.archived).map(r => r.id))
+
+  const archivedCount = runs.filter(r => r.archived).length
+  const visible = runs.filter(r => showArchived || !r.archived)
+  const compared = runs.filter(r => compareIds.includes(r.id))
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm font-medium text-[color:var(--text)]">Runs</p>
+            <p className="text-xs text-[color:var(--text-dim)] mt-1">
+              Each run tracks its own progress through this checklist
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+            aria-label="Close runs"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M6 6l8 8M14 6l-8 8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+            </svg>
+          </button>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault()
+            onStart(newName)
+            setNewName("")
+          }}
+        >
+          <Input
+            placeholder="New run, e.g. Acme Corp onboarding"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            className="text-sm"
+          />
+          <Button type="submit" size="sm" className="h-9">
+            Start Run
+          </Button>
+        </form>
+
+        <div className="space-y-1">
+          {visible.map(run => {
+            const isActive = run.id === activeRunId
+            const progress = runProgress(run, items)
+            const status = runStatus(run, items)
+            return (
+              <div
+                key={run.id}
+                data-run-id={run.id}
+                className={cn(
+                  "group flex items-center gap-3 rounded-lg border px-3 py-2 transition-colors",
+                  isActive
+                    ? "border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)]"
+                    : "border-[color:var(--border)] hover:border-[color:var(--border-strong)]",
+                  run.archived && "opacity-60"
+                )}
+              >
+                <button type="button" onClick={() => onSwitch(run.id)} className="flex-1 min-w-0 text-left">
+                  <span className="block truncate text-sm font-medium text-[color:var(--text)]">{run.name}</span>
+                  <span className="block text-xs text-[color:var(--text-dim)]">
+                    Started {formatDate(run.startedAt)} · {runStatusLabels[status]} · {progress.done}/{progress.total}
+                  </span>
+                </button>
+                <div className="h-1.5 w-16 shrink-0 rounded-full bg-[color:var(--progress-track)] overflow-hidden">
+                  <div className="h-full bg-[color:var(--accent)]" style={{ width: `${progress.percent}%` }} />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={() => onArchive(run.id, !run.archived)}
+                >
+                  {run.archived ? "Restore" : "Archive"}
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex items-center gap-4">
+          {archivedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+            >
+              {showArchived ? "Hide archived" : `Show archived (${archivedCount})`}
+            </button>
+          )}
+          {runs.length > 1 && (
+            <button
+              type="button"
+              onClick={() => setComparing(!comparing)}
+              className="text-xs text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+            >
+              {comparing ? "Hide comparison" : "Compare runs"}
+            </button>
+          )}
+        </div>
+
+        {comparing && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {runs.map(run => {
+                const selected = compareIds.includes(run.id)
+                return (
+                  <button
+                    key={run.id}
+                    type="button"
+                    onClick={() =>
+                      setCompareIds(selected ? compareIds.filter(id => id !== run.id) : [...compareIds, run.id])
+                    }
+                    className={cn(
+                      "text-xs px-2.5 py-1 rounded-full border transition-colors",
+                      selected
+                        ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                        : "border-[color:var(--border)] text-[color:var(--text-dim)] hover:border-[color:var(--border-strong)]"
+                    )}
+                  >
+                    {run.name}
+                  </button>
+                )
+              })}
+            </div>
+            {compared.length > 0 && (
+              <div className="overflow-x-auto rounded-lg border border-[color:var(--border)]">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-[color:var(--card-soft)] text-[color:var(--text-dim)]">
+                    <tr>
+                      <th className="px-2 py-1.5 font-medium">Step</th>
+                      {compared.map(run => (
+                        <th key={run.id} className="px-2 py-1.5 font-medium text-center whitespace-nowrap">{run.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map(item => (
+                      <tr key={item.id} className="border-t border-[color:var(--border)] text-[color:var(--text)]">
+                        <td className="px-2 py-1.5 max-w-[16rem] truncate">{item.title || "Untitled"}</td>
+                        {compared.map(run => (
+                          <td key={run.id} className="px-2 py-1.5 text-center">
+                            {run.state[item.id]
+                              ? <span className="text-[color:var(--accent-strong)]">✓</span>
+                              : <span className="text-[color:var(--text-dim)]">–</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr className="border-t border-[color:var(--border-strong)] font-medium text-[color:var(--text)]">
+                      <td className="px-2 py-1.5">Progress</td>
+                      {compared.map(run => (
+                        <td key={run.id} className="px-2 py-1.5 text-center">{runProgress(run, items).percent}%</td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
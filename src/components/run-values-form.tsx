@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from "react"
+import { TemplateVariable } from "@/types/checklist"
+import { variableLabel } from "@/lib/template"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+
+/** Asks for a run's template variable values before its steps are shown. */
+export function RunValuesForm({
+  runName,
+  variables,
+  values,
+  onSubmit,
+  onCancel
+}: {
+  runName: string
+  variables: TemplateVariable[]
+  values?: Record<string, string>
+  onSubmit: (values: Record<string, string>) => void
+  // Leaves the form without saving; the first time, values are saved empty instead
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState<Record<string, string>>(() => ({ ...values }))
+
+  return (
+    <Card data-run-values>
+      <CardContent className="p-4">
+        <form
+          className="space-y-3"
+          onSubmit={e => {
+            e.preventDefault()
+            onSubmit(Object.fromEntries(variables.map(v => [v.name, draft[v.name]?.trim() ?? ""])))
+          }}
+        >
+          <div>
+            <p className="text-sm font-medium text-[color:var(--text)]">Details for {runName}</p>
+            <p className="text-xs text-[color:var(--text-dim)] mt-1">
+              Filled into the steps of this run. Anything left blank shows as its placeholder.
+            </p>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {variables.map((variable, index) => (
+              <label key={variable.name} className="space-y-1.5 text-xs">
+                <span className="block font-medium text-[color:var(--text)]">{variableLabel(variable)}</span>
+                <Input
+                  value={draft[variable.name] ?? ""}
+                  onChange={e => setDraft(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                  placeholder={`{{${variable.name}}}`}
+                  autoFocus={index === 0}
+                  data-variable-input={variable.name}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" size="sm">
+              {values ? "Save" : "Start run"}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              {values ? "Cancel" : "Skip"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
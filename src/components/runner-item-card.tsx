@@ -0,0 +1,237 @@
+'use client'
+
+import { useState } from "react"
+import { ChecklistItem, RunEvent, StepCompletion } from "@/types/checklist"
+import { Presence } from "@/lib/collaboration"
+import { runEventLabels } from "@/lib/runs"
+import { formatDateKey, formatDuration, formatEstimate } from "@/lib/schedule"
+import { Input } from "@/components/ui/input"
+import { StepPresence } from "@/components/presence"
+import { cn } from "@/lib/utils"
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+}
+
+export function RunnerItemCard({
+  item,
+  depth,
+  subSteps,
+  collapsed,
+  onToggleCollapse,
+  completion,
+  dueKey,
+  overdue,
+  timing,
+  events,
+  highlighted,
+  onToggle,
+  onAnswer,
+  onNote,
+  peers
+}: {
+  item: ChecklistItem
+  depth: number
+  // Present on parents; a parent completes itself once its sub-steps are done
+  subSteps?: { done: number; total: number }
+  collapsed: boolean
+  onToggleCollapse: () => void
+  completion?: StepCompletion
+  // The step's due day in this run, already resolved against the run start
+  dueKey?: string
+  overdue: boolean
+  // Set on open steps once the checklist has estimates
+  timing?: { critical: boolean; slack: number }
+  events: RunEvent[]
+  highlighted: boolean
+  onToggle: () => void
+  onAnswer: (answer: string) => void
+  onNote: (note: string) => void
+  peers: Presence[]  // others in the live session who are on this step
+}) {
+  const [showHistory, setShowHistory] = useState(false)
+  const [editingNote, setEditingNote] = useState(false)
+  const [noteValue, setNoteValue] = useState("")
+  const isCompleted = !!completion
+
+  const commitNote = () => {
+    if (noteValue.trim() !== (completion?.note ?? "")) onNote(noteValue)
+    setEditingNote(false)
+  }
+
+  return (
+    <div
+      data-runner-item-id={item.id}
+      style={{ marginLeft: depth * 28 }}
+      className={cn(
+        "p-4 rounded-lg border transition-all",
+        isCompleted
+          ? "border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)]"
+          : "border-[color:var(--border)] bg-[color:var(--card)] hover:border-[color:var(--border-strong)] hover:shadow-sm",
+        overdue && "border-l-4 border-l-rose-500",
+        highlighted && "ring-2 ring-[color:var(--accent-soft-border)] animate-unlock"
+      )}
+    >
+      <label className={cn("flex items-start gap-3 cursor-pointer", isCompleted && "opacity-75")}>
+        <input
+          type="checkbox"
+          checked={isCompleted}
+          // Question steps are completed by picking an answer, parents by their sub-steps
+          disabled={!!subSteps || (!isCompleted && !!item.answers)}
+          onChange={onToggle}
+          className="mt-0.5 h-5 w-5 rounded border-[color:var(--border)] text-[color:var(--accent)]"
+        />
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <p className={cn(
+              "font-medium transition-all",
+              isCompleted ? "text-[color:var(--text-dim)] line-through" : "text-[color:var(--text)]"
+            )}>
+              {item.title}
+            </p>
+            <StepPresence peers={peers} />
+            {item.aiGenerated && (
+              <span className="text-[10px] font-medium rounded-full bg-[color:var(--accent-soft)] px-2 py-0.5 text-[color:var(--accent-strong)]">
+                AI
+              </span>
+            )}
+            {subSteps && (
+              <button
+                type="button"
+                onClick={e => {
+                  e.preventDefault()
+                  onToggleCollapse()
+                }}
+                className="text-[10px] text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+                aria-label={collapsed ? "Show sub-steps" : "Hide sub-steps"}
+              >
+                {collapsed ? "▸" : "▾"} {subSteps.done}/{subSteps.total} sub-steps
+              </button>
+            )}
+            {item.dependsOn.length > 0 && !isCompleted && (
+              <span className="text-[10px] text-[color:var(--text-dim)] opacity-60">
+                🔒 {item.dependsOn.length} dependencies
+              </span>
+            )}
+          </div>
+          {(item.assignee || dueKey || item.estimateHours || timing) && (
+            <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] text-[color:var(--text-dim)]" data-schedule>
+              {item.assignee && <span>👤 {item.assignee}</span>}
+              {dueKey && (
+                <span
+                  data-due={dueKey}
+                  className={cn(overdue && "font-medium rounded-full bg-rose-50 dark:bg-rose-950/20 px-2 py-0.5 text-rose-600 dark:text-rose-400")}
+                >
+                  {overdue ? `Overdue · was due ${formatDateKey(dueKey)}` : `Due ${formatDateKey(dueKey)}`}
+                </span>
+              )}
+              {item.estimateHours && <span>⏱ {formatEstimate(item.estimateHours)}</span>}
+              {timing && (timing.critical ? (
+                <span data-critical className="font-medium rounded-full bg-amber-50 dark:bg-amber-950/20 px-2 py-0.5 text-amber-700 dark:text-amber-400">
+                  Critical path
+                </span>
+              ) : (
+                <span data-slack={timing.slack}>{formatDuration(timing.slack)} slack</span>
+              ))}
+            </div>
+          )}
+          {item.description && (
+            <p className={cn(
+              "text-sm mt-1 transition-all",
+              isCompleted ? "text-[color:var(--text-dim)] opacity-50" : "text-[color:var(--text-dim)]"
+            )}>
+              {item.description}
+            </p>
+          )}
+        </div>
+      </label>
+
+      {item.answers && (
+        <div className="ml-8 mt-3 flex flex-wrap gap-2" data-answers>
+          {item.answers.map(answer => (
+            <button
+              key={answer}
+              type="button"
+              onClick={() => onAnswer(answer)}
+              className={cn(
+                "text-xs px-3 py-1 rounded-full border transition-colors",
+                completion?.answer === answer
+                  ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                  : "border-[color:var(--border)] text-[color:var(--text-dim)] hover:border-[color:var(--border-strong)]"
+              )}
+            >
+              {answer}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(completion || events.length > 0) && (
+        <div className="ml-8 mt-2 space-y-2 text-xs text-[color:var(--text-dim)]">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            {completion && (
+              <span data-completion>
+                {completion.answer ? `Answered "${completion.answer}"` : "Done"}
+                {completion.completedBy && ` by ${completion.completedBy}`} · {formatTime(completion.completedAt)}
+              </span>
+            )}
+            {completion && !editingNote && (
+              <button
+                type="button"
+                onClick={() => {
+                  setNoteValue(completion.note ?? "")
+                  setEditingNote(true)
+                }}
+                className="hover:text-[color:var(--text)]"
+              >
+                {completion.note ? "Edit note" : "Add note"}
+              </button>
+            )}
+            {events.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowHistory(!showHistory)}
+                className="hover:text-[color:var(--text)]"
+              >
+                {showHistory ? "Hide history" : `History (${events.length})`}
+              </button>
+            )}
+          </div>
+
+          {completion?.note && !editingNote && (
+            <p className="italic text-[color:var(--text)]">“{completion.note}”</p>
+          )}
+
+          {editingNote && (
+            <Input
+              autoFocus
+              placeholder="Note, e.g. ticket number or who signed off"
+              value={noteValue}
+              onChange={e => setNoteValue(e.target.value)}
+              onBlur={commitNote}
+              onKeyDown={e => {
+                if (e.key === "Enter") commitNote()
+                if (e.key === "Escape") setEditingNote(false)
+              }}
+              className="h-8 text-xs"
+            />
+          )}
+
+          {showHistory && (
+            <ol className="space-y-1 border-l border-[color:var(--border)] pl-3" data-step-history>
+              {events.map(event => (
+                <li key={event.id}>
+                  <span className="text-[color:var(--text)]">
+                    {event.answer ? `Answered "${event.answer}"` : runEventLabels[event.type]}
+                  </span>
+                  {event.by && ` by ${event.by}`} · {formatTime(event.at)}
+                  {event.note && <span className="italic"> — {event.note}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { ChecklistDocument } from "@/lib/checklist-document"
+import { flattenTree } from "@/lib/tree"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+
+/** Read-only look at a checklist opened from a share link, before anything is saved. */
+export function SharedChecklistPreview({
+  document,
+  messages,
+  currentName,
+  onImportAsNew,
+  onMerge,
+  onDismiss
+}: {
+  document: ChecklistDocument
+  messages: string[]
+  currentName: string
+  onImportAsNew: () => void
+  // Absent when the current checklist is empty and there's nothing to merge into
+  onMerge?: () => void
+  onDismiss: () => void
+}) {
+  const titleOf = new Map(document.items.map(i => [i.id, i.title || "Untitled"]))
+  const progress = document.runnerState ? Object.keys(document.runnerState).length : null
+
+  return (
+    <Card data-share-preview>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <p className="text-xs text-[color:var(--text-dim)]">Shared checklist</p>
+          <p className="text-lg font-medium text-[color:var(--text)]">{document.name}</p>
+          <p className="text-xs text-[color:var(--text-dim)] mt-1">
+            {document.items.length} step{document.items.length === 1 ? "" : "s"}
+            {progress !== null && ` · ${progress} completed`}
+            {document.variables && ` · variables ${document.variables.map(v => `{{${v.name}}}`).join(" ")}`}
+          </p>
+        </div>
+
+        <ol className="max-h-80 overflow-y-auto space-y-1 rounded-lg border border-[color:var(--border)] p-3">
+          {flattenTree(document.items).map(({ item, depth }) => {
+            const done = !!document.runnerState?.[item.id]
+            return (
+              <li key={item.id} style={{ marginLeft: depth * 20 }} className="text-sm">
+                <span className={cn("text-[color:var(--text)]", done && "line-through opacity-60")}>
+                  {done ? "☑" : "☐"} {item.title || "Untitled"}
+                </span>
+                {item.dependsOn.length > 0 && (
+                  <span className="text-xs text-[color:var(--text-dim)]">
+                    {" "}· after {item.dependsOn.map(id => titleOf.get(id)).join(", ")}
+                  </span>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+
+        {messages.length > 0 && (
+          <details className="text-xs text-[color:var(--text-dim)]">
+            <summary className="cursor-pointer">⚠️ {messages.length} problem{messages.length === 1 ? " was" : "s were"} fixed while reading the link</summary>
+            <ul className="mt-2 list-disc pl-5 space-y-1">
+              {messages.map((message, i) => <li key={i}>{message}</li>)}
+            </ul>
+          </details>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={onImportAsNew} size="sm">
+            Import as new
+          </Button>
+          {onMerge && (
+            <Button onClick={onMerge} variant="outline" size="sm">
+              Merge into “{currentName}”
+            </Button>
+          )}
+          <Button onClick={onDismiss} variant="ghost" size="sm">
+            Dismiss
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
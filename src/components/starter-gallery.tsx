@@ -0,0 +1,29 @@
+'use client'
+
+import { StarterTemplate, starterTemplates } from "@/lib/starter-templates"
+
+/** Built-in templates to start an empty checklist from. */
+export function StarterGallery({ onPick }: { onPick: (template: StarterTemplate) => void }) {
+  return (
+    <div className="space-y-2 text-left" data-starter-gallery>
+      <p className="text-xs font-medium text-[color:var(--text-dim)] text-center">Or start from a template</p>
+      <div className="grid gap-2 sm:grid-cols-3">
+        {starterTemplates.map(template => (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => onPick(template)}
+            data-starter={template.id}
+            className="rounded-lg border border-[color:var(--border)] p-3 text-left transition-colors hover:border-[color:var(--accent)] hover:bg-[color:var(--accent-soft)]"
+          >
+            <span className="block text-sm font-medium text-[color:var(--text)]">{template.name}</span>
+            <span className="block mt-1 text-xs text-[color:var(--text-dim)]">{template.summary}</span>
+            <span className="block mt-2 text-[11px] text-[color:var(--text-dim)]">
+              {template.steps.length} steps · {template.variables.map(v => `{{${v.name}}}`).join(" ")}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
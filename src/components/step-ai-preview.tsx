@@ -0,0 +1,86 @@
+'use client'
+
+import { ChecklistItem } from "@/types/checklist"
+import { GenerationReport } from "@/lib/ai"
+import { StepActionResult, stepAiActionLabels } from "@/lib/ai-step-actions"
+import { formatEstimate } from "@/lib/schedule"
+import { GenerationReportDetails } from "@/components/generation-report"
+import { Button } from "@/components/ui/button"
+
+/** What a per-step AI action would change, shown inside the step until it's applied or discarded. */
+export function StepAiPreview({
+  item,
+  result,
+  report,
+  onApply,
+  onDiscard
+}: {
+  item: ChecklistItem
+  result: StepActionResult
+  report: GenerationReport | null
+  onApply: () => void
+  onDiscard: () => void
+}) {
+  const newSteps = result.action === "expand" || result.action === "split" ? result.items : []
+
+  return (
+    <div
+      className="rounded-lg border border-[color:var(--accent-soft-border)] bg-[color:var(--accent-soft)] p-3 space-y-2"
+      data-step-ai-preview={result.action}
+    >
+      <p className="text-xs font-medium text-[color:var(--accent-strong)]">
+        {stepAiActionLabels[result.action]} preview
+      </p>
+
+      {result.action === "rewrite" && (
+        <div className="space-y-1 text-sm">
+          {item.description?.trim() && (
+            <p className="text-[color:var(--text-dim)] line-through">{item.description}</p>
+          )}
+          <p className="text-[color:var(--text)]">{result.description}</p>
+        </div>
+      )}
+
+      {result.action === "estimate" && (
+        <div className="space-y-1 text-sm">
+          <p className="text-[color:var(--text)]">
+            {item.estimateHours && (
+              <span className="text-[color:var(--text-dim)] line-through mr-2">{formatEstimate(item.estimateHours)}</span>
+            )}
+            <span className="font-medium">{formatEstimate(result.hours)}</span>
+          </p>
+          <p className="text-xs text-[color:var(--text-dim)]">{result.rationale}</p>
+        </div>
+      )}
+
+      {newSteps.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-[color:var(--text-dim)]">
+            {result.action === "expand"
+              ? `Adds ${newSteps.length} sub-step${newSteps.length === 1 ? "" : "s"}:`
+              : `Replaces this step with ${newSteps.length} steps:`}
+          </p>
+          <ol className="list-decimal pl-5 space-y-1 text-sm text-[color:var(--text)]">
+            {newSteps.map(step => (
+              <li key={step.id}>
+                <span className="font-medium">{step.title}</span>
+                {step.description && <span className="text-xs text-[color:var(--text-dim)]"> — {step.description}</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <GenerationReportDetails report={report} />
+
+      <div className="flex gap-2">
+        <Button onClick={onApply} size="sm">
+          Apply
+        </Button>
+        <Button onClick={onDiscard} variant="ghost" size="sm">
+          Discard
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState } from "react"
+import { ChecklistItem, StepCondition } from "@/types/checklist"
+import { wouldCreateCycle } from "@/lib/graph"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+const selectClass = "h-8 rounded-md border border-[color:var(--input-border)] bg-[color:var(--input-bg)] px-2 text-xs text-[color:var(--text)]"
+
+function parseAnswers(value: string): string[] | undefined {
+  const answers = Array.from(new Set(value.split(",").map(a => a.trim()).filter(Boolean)))
+  return answers.length > 1 ? answers : undefined
+}
+
+/**
+ * Edits the branching rules on one step: its own answer options, any-of
+ * dependency groups, and conditions on earlier answers.
+ */
+export function StepLogicEditor({
+  item,
+  allItems,
+  onChange
+}: {
+  item: ChecklistItem
+  allItems: ChecklistItem[]
+  onChange: (patch: Partial<ChecklistItem>) => void
+}) {
+  const [answersText, setAnswersText] = useState(item.answers?.join(", ") ?? "")
+  const otherItems = allItems.filter(i => i.id !== item.id)
+  const questions = otherItems.filter(i => i.answers && i.answers.length > 1)
+  const anyOf = item.anyOf ?? []
+  const conditions = item.conditions ?? []
+
+  const setGroups = (groups: string[][]) => onChange({ anyOf: groups.length > 0 ? groups : undefined })
+  const setConditions = (next: StepCondition[]) => onChange({ conditions: next.length > 0 ? next : undefined })
+
+  return (
+    <div className="space-y-4 pl-4 text-xs text-[color:var(--text-dim)]">
+      <div className="space-y-1.5">
+        <p className="font-medium text-[color:var(--text)]">Answer options</p>
+        <Input
+          placeholder="e.g. Yes, No"
+          value={answersText}
+          onChange={e => setAnswersText(e.target.value)}
+          onBlur={() => {
+            const answers = parseAnswers(answersText)
+            setAnswersText(answers?.join(", ") ?? "")
+            onChange({ answers })
+          }}
+          className="h-8 text-xs"
+        />
+        <p>Comma separated. Completing the step in the runner records one of them.</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="font-medium text-[color:var(--text)]">Any of</p>
+        {anyOf.map((group, groupIndex) => (
+          <div key={groupIndex} className="flex flex-wrap items-center gap-2" data-any-of-group={groupIndex}>
+            {otherItems.map(target => {
+              const active = group.includes(target.id)
+              const cyclic = !active && wouldCreateCycle(allItems, item.id, target.id)
+              return (
+                <button
+                  key={target.id}
+                  type="button"
+                  disabled={cyclic}
+                  title={cyclic ? `"${target.title || "Untitled"}" already depends on this step` : undefined}
+                  onClick={() => {
+                    const nextGroup = active ? group.filter(id => id !== target.id) : [...group, target.id]
+                    setGroups(anyOf.map((g, i) => (i === groupIndex ? nextGroup : g)))
+                  }}
+                  className={cn(
+                    "px-2.5 py-1 rounded-full border transition-colors",
+                    active
+                      ? "border-[color:var(--accent)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]"
+                      : cyclic
+                        ? "border-dashed border-[color:var(--border)] opacity-50 cursor-not-allowed"
+                        : "border-[color:var(--border)] hover:border-[color:var(--border-strong)]"
+                  )}
+                >
+                  {target.title || "Untitled"}
+                </button>
+              )
+            })}
+            <button
+              type="button"
+              onClick={() => setGroups(anyOf.filter((_, i) => i !== groupIndex))}
+              className="hover:text-rose-500"
+            >
+              Remove group
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={() => setGroups([...anyOf, []])} className="hover:text-[color:var(--text)]">
+          + Add any-of group
+        </button>
+        {anyOf.length > 0 && <p>Each group unlocks this step once one of its steps is done.</p>}
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="font-medium text-[color:var(--text)]">Only if</p>
+        {conditions.map((condition, index) => {
+          const source = questions.find(q => q.id === condition.stepId)
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2" data-condition={index}>
+              <select
+                value={condition.stepId}
+                onChange={e => {
+                  const nextSource = questions.find(q => q.id === e.target.value)
+                  setConditions(conditions.map((c, i) =>
+                    i === index ? { stepId: e.target.value, equals: nextSource?.answers?.[0] ?? "" } : c
+                  ))
+                }}
+                className={selectClass}
+              >
+                {!source && <option value={condition.stepId}>Missing step</option>}
+                {questions.map(q => (
+                  <option
+                    key={q.id}
+                    value={q.id}
+                    disabled={q.id !== condition.stepId && wouldCreateCycle(allItems, item.id, q.id)}
+                  >
+                    {q.title || "Untitled"}
+                  </option>
+                ))}
+              </select>
+              <span>is answered</span>
+              <select
+                value={condition.equals}
+                onChange={e => setConditions(conditions.map((c, i) => (i === index ? { ...c, equals: e.target.value } : c)))}
+                className={selectClass}
+              >
+                {!source?.answers?.includes(condition.equals) && <option value={condition.equals}>{condition.equals || "—"}</option>}
+                {source?.answers?.map(answer => (
+                  <option key={answer} value={answer}>{answer}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+                className="hover:text-rose-500"
+              >
+                Remove
+              </button>
+            </div>
+          )
+        })}
+        {questions.some(q => !wouldCreateCycle(allItems, item.id, q.id)) ? (
+          <button
+            type="button"
+            onClick={() => {
+              const first = questions.find(q => !wouldCreateCycle(allItems, item.id, q.id))!
+              setConditions([...conditions, { stepId: first.id, equals: first.answers![0] }])
+            }}
+            className="hover:text-[color:var(--text)]"
+          >
+            + Add condition
+          </button>
+        ) : (
+          <p>Give an earlier step answer options to make this step conditional.</p>
+        )}
+        {conditions.length > 0 && <p>When an answer doesn&apos;t match, the runner skips this step. Steps after it still unlock.</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { ChecklistItem, DueDate } from "@/types/checklist"
+import { Input } from "@/components/ui/input"
+
+const selectClass = "h-8 rounded-md border border-[color:var(--input-border)] bg-[color:var(--input-bg)] px-2 text-xs text-[color:var(--text)]"
+
+type DueKind = "none" | DueDate["kind"]
+
+/** Edits who owns a step, when it's due and how long it should take. */
+export function StepScheduleEditor({
+  item,
+  onChange
+}: {
+  item: ChecklistItem
+  onChange: (patch: Partial<ChecklistItem>) => void
+}) {
+  const dueKind: DueKind = item.due?.kind ?? "none"
+
+  const setDueKind = (kind: DueKind) => {
+    if (kind === "none") onChange({ due: undefined })
+    if (kind === "date") onChange({ due: { kind: "date", date: new Date().toISOString().slice(0, 10) } })
+    if (kind === "offset") onChange({ due: { kind: "offset", days: 1 } })
+  }
+
+  return (
+    <div className="grid gap-3 pl-4 text-xs text-[color:var(--text-dim)] sm:grid-cols-3">
+      <label className="space-y-1.5">
+        <span className="block font-medium text-[color:var(--text)]">Assignee</span>
+        <Input
+          placeholder="Name"
+          value={item.assignee ?? ""}
+          onChange={e => onChange({ assignee: e.target.value || undefined })}
+          className="h-8 text-xs"
+        />
+      </label>
+
+      <div className="space-y-1.5">
+        <span className="block font-medium text-[color:var(--text)]">Due</span>
+        <div className="flex items-center gap-2">
+          <select
+            value={dueKind}
+            onChange={e => setDueKind(e.target.value as DueKind)}
+            className={selectClass}
+            aria-label="Due date type"
+          >
+            <option value="none">No due date</option>
+            <option value="date">On date</option>
+            <option value="offset">Days after start</option>
+          </select>
+          {item.due?.kind === "date" && (
+            <Input
+              type="date"
+              value={item.due.date}
+              onChange={e => e.target.value && onChange({ due: { kind: "date", date: e.target.value } })}
+              className="h-8 text-xs"
+            />
+          )}
+          {item.due?.kind === "offset" && (
+            <Input
+              type="number"
+              min={0}
+              value={item.due.days}
+              onChange={e => {
+                const days = Math.max(0, Math.floor(Number(e.target.value)))
+                if (Number.isFinite(days)) onChange({ due: { kind: "offset", days } })
+              }}
+              className="h-8 w-20 text-xs"
+              aria-label="Days after run start"
+            />
+          )}
+        </div>
+      </div>
+
+      <label className="space-y-1.5">
+        <span className="block font-medium text-[color:var(--text)]">Estimate (hours)</span>
+        <Input
+          type="number"
+          min={0}
+          step={0.5}
+          placeholder="e.g. 2"
+          value={item.estimateHours ?? ""}
+          onChange={e => {
+            const hours = Number(e.target.value)
+            onChange({ estimateHours: e.target.value && hours > 0 ? hours : undefined })
+          }}
+          className="h-8 text-xs"
+        />
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from "react"
+import { ChecklistItem, TemplateVariable } from "@/types/checklist"
+import { isVariableName, referencedVariables, variableLabel } from "@/lib/template"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+
+/**
+ * Declares the checklist's template variables. Placeholders used in steps but
+ * not declared are offered for declaring; declared ones no step uses are marked.
+ */
+export function TemplateVariablesEditor({
+  variables,
+  items,
+  onChange,
+  onClose
+}: {
+  variables: TemplateVariable[]
+  items: ChecklistItem[]
+  onChange: (variables: TemplateVariable[]) => void
+  onClose: () => void
+}) {
+  const [newName, setNewName] = useState("")
+  const used = referencedVariables(items)
+  const declared = new Set(variables.map(v => v.name))
+  const undeclared = used.filter(name => !declared.has(name))
+
+  const trimmed = newName.trim().replace(/^\{\{\s*|\s*\}\}$/g, "")
+  const nameError = !trimmed
+    ? null
+    : !isVariableName(trimmed)
+      ? "Use letters, digits and underscores, starting with a letter"
+      : declared.has(trimmed)
+        ? "Already declared"
+        : null
+
+  return (
+    <Card data-template-variables>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm font-medium text-[color:var(--text)]">Template variables</p>
+            <p className="text-xs text-[color:var(--text-dim)] mt-1">
+              Write <code>{"{{name}}"}</code> in step titles or descriptions. Each run asks for the values when it starts.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[color:var(--text-dim)] hover:text-[color:var(--text)]"
+            aria-label="Close variables"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M6 6l8 8M14 6l-8 8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+            </svg>
+          </button>
+        </div>
+
+        {variables.length > 0 && (
+          <div className="space-y-2">
+            {variables.map(variable => (
+              <div key={variable.name} className="flex items-center gap-2" data-variable={variable.name}>
+                <code className="w-40 shrink-0 truncate text-xs text-[color:var(--accent-strong)]">{`{{${variable.name}}}`}</code>
+                <Input
+                  placeholder={variableLabel({ name: variable.name })}
+                  value={variable.label ?? ""}
+                  onChange={e => onChange(variables.map(v => (v.name === variable.name ? { ...v, label: e.target.value || undefined } : v)))}
+                  className="h-8 text-xs"
+                  aria-label={`Label for ${variable.name}`}
+                />
+                {!used.includes(variable.name) && (
+                  <span className="shrink-0 text-[11px] text-[color:var(--text-dim)]">unused</span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(variables.filter(v => v.name !== variable.name))}
+                  aria-label={`Remove ${variable.name}`}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          className="space-y-1"
+          onSubmit={e => {
+            e.preventDefault()
+            if (!trimmed || nameError) return
+            onChange([...variables, { name: trimmed }])
+            setNewName("")
+          }}
+        >
+          <div className="flex gap-2">
+            <Input
+              placeholder="New variable, e.g. clientName"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              className="text-sm"
+            />
+            <Button type="submit" size="sm" className="h-9" disabled={!trimmed || !!nameError}>
+              Add
+            </Button>
+          </div>
+          {nameError && <p className="text-xs text-rose-600 dark:text-rose-400">{nameError}</p>}
+        </form>
+
+        {undeclared.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-[color:var(--text-dim)]" data-undeclared-variables>
+            <span>Used in steps but not declared:</span>
+            {undeclared.map(name => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => onChange([...variables, { name }])}
+                className="rounded-full border border-dashed border-[color:var(--border-strong)] px-2 py-0.5 hover:border-[color:var(--accent)] hover:text-[color:var(--text)]"
+              >
+                + {`{{${name}}}`}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
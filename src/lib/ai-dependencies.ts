@@ -0,0 +1,145 @@
+import { ChecklistItem } from "@/types/checklist"
+import { extractJson, GenerationReport } from "@/lib/ai"
+import { wouldCreateCycle } from "@/lib/graph"
+import { areNested, flattenTree } from "@/lib/tree"
+
+/** A proposed `dependsOn` edge: `itemId` should wait for `depId`. */
+export type DependencySuggestion = {
+  itemId: string
+  depId: string
+  rationale: string
+}
+
+export const dependencySuggestionSchema = {
+  type: "object",
+  properties: {
+    edges: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          step: { type: "string", description: "Key of the step that has to wait" },
+          dependsOn: { type: "string", description: "Key of the step it waits for" },
+          rationale: { type: "string", description: "One sentence on why" }
+        },
+        required: ["step", "dependsOn", "rationale"]
+      }
+    }
+  },
+  required: ["edges"]
+}
+
+export const dependencySuggestionShape = '{"edges": [{"step": "s3", "dependsOn": "s1", "rationale": "..."}]}'
+
+export function edgeKey(edge: { itemId: string; depId: string }): string {
+  return `${edge.depId}->${edge.itemId}`
+}
+
+/** Short keys (s1, s2, ...) in display order, so the model never has to copy UUIDs. */
+export function stepKeys(items: ChecklistItem[]): Map<string, string> {
+  return new Map(flattenTree(items).map(({ item }, index) => [`s${index + 1}`, item.id]))
+}
+
+export function buildDependencyPrompt(items: ChecklistItem[]): string {
+  const keys = stepKeys(items)
+  const keyOf = new Map(Array.from(keys, ([key, id]) => [id, key]))
+  const lines = flattenTree(items).map(({ item, depth }) => {
+    const after = item.dependsOn.filter(dep => keyOf.has(dep)).map(dep => keyOf.get(dep))
+    const parent = item.parentId && keyOf.has(item.parentId) ? ` | inside: ${keyOf.get(item.parentId)}` : ""
+    return [
+      `${"  ".repeat(depth)}${keyOf.get(item.id)}: ${item.title || "Untitled"}${after.length > 0 ? ` | after: ${after.join(", ")}` : ""}${parent}`,
+      ...(item.description?.trim() ? [`${"  ".repeat(depth + 1)}${item.description.trim().replace(/\s+/g, " ")}`] : [])
+    ].join("\n")
+  })
+  return [
+    "You are helping an implementation consultant order an onboarding checklist.",
+    "Below are its steps, each with a key. \"after\" lists the dependencies it already has, and \"inside\" its parent step.",
+    "",
+    "Suggest missing dependencies: pairs where one step can't sensibly start until another is done.",
+    "- Only suggest edges that are really required, not just a nice order",
+    "- Never suggest an edge that already exists, between a step and its parent, or one that creates a loop",
+    "- Give a one-sentence rationale for each",
+    `- Return ONLY valid JSON of the form ${dependencySuggestionShape}`,
+    "",
+    "Steps:",
+    ...lines
+  ].join("\n")
+}
+
+/**
+ * Validates the model's edges against the checklist it was shown. Unknown
+ * steps, self-references, parent/sub-step pairs and edges that already exist
+ * are dropped and reported. Cycles are left to the review, since whether an
+ * edge closes one depends on which other edges get approved.
+ */
+export function parseDependencySuggestions(
+  text: string,
+  items: ChecklistItem[]
+): { edges: DependencySuggestion[]; report: GenerationReport } {
+  const { value, repaired } = extractJson(text)
+  const report: GenerationReport = { repaired, dropped: [] }
+  const raw = value as any
+  const list: unknown[] | null = Array.isArray(raw) ? raw : Array.isArray(raw?.edges) ? raw.edges : null
+  if (!list) throw new Error("the reply has no list of edges")
+
+  const keys = stepKeys(items)
+  const byId = new Map(items.map(i => [i.id, i]))
+  const resolve = (ref: unknown): string | undefined => {
+    if (typeof ref !== "string") return undefined
+    const trimmed = ref.trim()
+    return keys.get(trimmed.toLowerCase())
+      ?? (byId.has(trimmed) ? trimmed : undefined)
+      ?? items.find(i => i.title.trim().toLowerCase() === trimmed.toLowerCase())?.id
+  }
+  const titleOf = (id: string) => byId.get(id)?.title || "Untitled"
+
+  const edges: DependencySuggestion[] = []
+  list.forEach(entry => {
+    const edge = entry as any
+    const itemId = resolve(edge?.step)
+    const depId = resolve(edge?.dependsOn)
+    if (!itemId || !depId) {
+      report.dropped.push(`Dropped an edge between unknown steps "${String(edge?.step)}" and "${String(edge?.dependsOn)}"`)
+      return
+    }
+    if (itemId === depId) {
+      report.dropped.push(`Dropped "${titleOf(itemId)}" depending on itself`)
+      return
+    }
+    if (areNested(items, itemId, depId)) {
+      report.dropped.push(`Dropped "${titleOf(itemId)}" → "${titleOf(depId)}" because one is a sub-step of the other`)
+      return
+    }
+    if (byId.get(itemId)!.dependsOn.includes(depId)) {
+      report.dropped.push(`Dropped "${titleOf(itemId)}" → "${titleOf(depId)}", which already exists`)
+      return
+    }
+    if (edges.some(e => e.itemId === itemId && e.depId === depId)) return
+    const rationale = typeof edge.rationale === "string" && edge.rationale.trim() ? edge.rationale.trim() : "No reason given"
+    edges.push({ itemId, depId, rationale })
+  })
+  return { edges, report }
+}
+
+/**
+ * Adds the edges one at a time, skipping any that would close a cycle with
+ * the graph as it stands at that point, including edges added before it.
+ */
+export function applyDependencySuggestions(
+  items: ChecklistItem[],
+  edges: DependencySuggestion[]
+): { items: ChecklistItem[]; applied: DependencySuggestion[]; skipped: DependencySuggestion[] } {
+  let next = items
+  const applied: DependencySuggestion[] = []
+  const skipped: DependencySuggestion[] = []
+  edges.forEach(edge => {
+    const item = next.find(i => i.id === edge.itemId)
+    if (!item || !next.some(i => i.id === edge.depId) || item.dependsOn.includes(edge.depId) || wouldCreateCycle(next, edge.itemId, edge.depId)) {
+      skipped.push(edge)
+      return
+    }
+    next = next.map(i => (i.id === edge.itemId ? { ...i, dependsOn: [...i.dependsOn, edge.depId] } : i))
+    applied.push(edge)
+  })
+  return { items: next, applied, skipped }
+}
@@ -0,0 +1,78 @@
+import { ChecklistItem } from "@/types/checklist"
+import { descendantIds } from "@/lib/tree"
+
+export type MergeMode = "replace" | "append" | "insert"
+
+export const mergeModeLabels: Record<MergeMode, string> = {
+  replace: "Replace",
+  append: "Append",
+  insert: "Insert after"
+}
+
+/** One generated step waiting in the review tray. */
+export type Suggestion = {
+  item: ChecklistItem
+  accepted: boolean
+  duplicateOf?: string  // Id of an existing step with the same title
+}
+
+// "Set up  the Workspace." and "set up the workspace" are the same step
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()
+}
+
+export function findDuplicate(title: string, existing: ChecklistItem[]): ChecklistItem | undefined {
+  const normalized = normalizeTitle(title)
+  return normalized ? existing.find(item => normalizeTitle(item.title) === normalized) : undefined
+}
+
+/** Duplicates start out rejected; everything else starts out accepted. */
+export function createSuggestions(generated: ChecklistItem[], existing: ChecklistItem[]): Suggestion[] {
+  return generated.map(item => {
+    const duplicateOf = findDuplicate(item.title, existing)?.id
+    return { item, accepted: !duplicateOf, duplicateOf }
+  })
+}
+
+/**
+ * Adds the accepted suggestions to the checklist. A rejected duplicate stands
+ * in for the existing step it copies, so suggestions that depended on it
+ * depend on that step instead. Other references to rejected suggestions are
+ * dropped. "insert" places the new steps after `afterId` and its sub-steps,
+ * as its siblings.
+ */
+export function mergeSuggestions(
+  existing: ChecklistItem[],
+  suggestions: Suggestion[],
+  mode: MergeMode,
+  afterId?: string
+): ChecklistItem[] {
+  const keepExisting = mode !== "replace"
+  const existingIds = new Set(existing.map(i => i.id))
+  const acceptedIds = new Set(suggestions.filter(s => s.accepted).map(s => s.item.id))
+  const standIns = new Map(
+    suggestions
+      .filter(s => keepExisting && !s.accepted && s.duplicateOf)
+      .map(s => [s.item.id, s.duplicateOf!])
+  )
+
+  const added = suggestions
+    .filter(s => s.accepted)
+    .map(({ item }) => ({
+      ...item,
+      dependsOn: Array.from(new Set(
+        item.dependsOn
+          .map(dep => standIns.get(dep) ?? dep)
+          .filter(dep => acceptedIds.has(dep) || (keepExisting && existingIds.has(dep)))
+      ))
+    }))
+
+  if (mode === "replace") return added
+  const anchor = afterId ? existing.find(i => i.id === afterId) : undefined
+  if (mode === "append" || !anchor) return [...existing, ...added]
+
+  const subtree = new Set([anchor.id, ...descendantIds(existing, anchor.id)])
+  const lastIndex = existing.reduce((last, item, index) => (subtree.has(item.id) ? index : last), 0)
+  const placed = added.map(item => ({ ...item, parentId: anchor.parentId }))
+  return [...existing.slice(0, lastIndex + 1), ...placed, ...existing.slice(lastIndex + 1)]
+}
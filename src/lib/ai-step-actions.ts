@@ -0,0 +1,234 @@
+import { ChecklistItem, StepAiAction } from "@/types/checklist"
+import { extractJson, GenerationReport, normalizeGeneratedSteps } from "@/lib/ai"
+import { descendantIds, flattenTree, hasChildren } from "@/lib/tree"
+import { formatEstimate } from "@/lib/schedule"
+
+export const stepAiActions: StepAiAction[] = ["rewrite", "expand", "split", "estimate"]
+
+export const stepAiActionLabels: Record<StepAiAction, string> = {
+  rewrite: "Rewrite",
+  expand: "Expand",
+  split: "Split",
+  estimate: "Estimate"
+}
+
+export const stepAiActionHints: Record<StepAiAction, string> = {
+  rewrite: "Rewrite the description more clearly",
+  expand: "Break this step into sub-steps",
+  split: "Replace this step with several concrete ones",
+  estimate: "Estimate the effort in hours"
+}
+
+export function isStepAiAction(value: unknown): value is StepAiAction {
+  return stepAiActions.includes(value as StepAiAction)
+}
+
+/** What an action proposes for one step, before it's applied. */
+export type StepActionResult =
+  | { action: "rewrite"; description: string }
+  | { action: "expand" | "split"; items: ChecklistItem[] }
+  | { action: "estimate"; hours: number; rationale: string }
+
+const subStepsSchema = {
+  type: "object",
+  properties: {
+    steps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Short unique reference for this step, e.g. s1" },
+          title: { type: "string" },
+          description: { type: "string" },
+          dependsOn: { type: "array", items: { type: "string" }, description: "Keys of other new steps that must be done first" }
+        },
+        required: ["key", "title", "description", "dependsOn"]
+      }
+    }
+  },
+  required: ["steps"]
+}
+
+export const stepActionSchemas: Record<StepAiAction, object> = {
+  rewrite: {
+    type: "object",
+    properties: { description: { type: "string" } },
+    required: ["description"]
+  },
+  expand: subStepsSchema,
+  split: subStepsSchema,
+  estimate: {
+    type: "object",
+    properties: {
+      hours: { type: "number", description: "Working hours for one person" },
+      rationale: { type: "string", description: "One sentence on what the estimate assumes" }
+    },
+    required: ["hours", "rationale"]
+  }
+}
+
+const subStepsShape = '{"steps": [{"key": "s1", "title": "...", "description": "...", "dependsOn": []}]}'
+
+// The reply each action asks for, in its prompt and again when re-prompting
+export const stepActionShapes: Record<StepAiAction, string> = {
+  rewrite: '{"description": "..."}',
+  expand: subStepsShape,
+  split: subStepsShape,
+  estimate: '{"hours": 2, "rationale": "..."}'
+}
+
+/** Why an action can't run on this step, or null when it can. */
+export function stepActionUnavailable(action: StepAiAction, item: ChecklistItem, items: ChecklistItem[]): string | null {
+  const isParent = hasChildren(items, item.id)
+  if (action === "split" && isParent) return "Steps with sub-steps can't be split"
+  if (action === "estimate" && isParent) return "A parent step's effort comes from its sub-steps"
+  if ((action === "split" || action === "expand") && item.answers) {
+    return "Question steps can't be broken up, since other steps depend on their answer"
+  }
+  return null
+}
+
+const instructions: Record<StepAiAction, string[]> = {
+  rewrite: [
+    "Rewrite the description of the marked step so it's clear and actionable: what to do, and how to tell it's done.",
+    "- One to three sentences; keep every fact from the current description and don't invent names or tools",
+    `- Return ONLY valid JSON of the form ${stepActionShapes.rewrite}`
+  ],
+  expand: [
+    "Break the marked step into the sub-steps that together complete it.",
+    "- Two to six sub-steps, each a concrete action with a short description",
+    "- Don't repeat steps that are already elsewhere in the checklist",
+    "- dependsOn may only list keys of other new sub-steps",
+    `- Return ONLY valid JSON of the form ${stepActionShapes.expand}`
+  ],
+  split: [
+    "The marked step is vague or covers several things at once. Replace it with concrete steps at the same level.",
+    "- Two to five steps that together cover everything the marked step meant",
+    "- Don't repeat steps that are already elsewhere in the checklist",
+    "- dependsOn may only list keys of other new steps",
+    `- Return ONLY valid JSON of the form ${stepActionShapes.split}`
+  ],
+  estimate: [
+    "Estimate how many working hours one person needs for the marked step, not counting time spent waiting on others.",
+    "- Use the rest of the checklist to judge its scope",
+    `- Return ONLY valid JSON of the form ${stepActionShapes.estimate}`
+  ]
+}
+
+/** The step to change, with the whole checklist as an outline around it for context. */
+export function buildStepActionPrompt(action: StepAiAction, itemId: string, items: ChecklistItem[]): string {
+  const item = items.find(i => i.id === itemId)
+  if (!item) throw new Error("Unknown step")
+  const titleOf = (id: string) => items.find(i => i.id === id)?.title || "Untitled"
+
+  const outline = flattenTree(items).map(({ item: row, depth }) =>
+    `${"  ".repeat(depth)}- ${row.title || "Untitled"}${row.id === itemId ? "   <-- marked step" : ""}`
+  )
+  const details = [
+    `Marked step: ${item.title || "Untitled"}`,
+    `Current description: ${item.description?.trim().replace(/\s+/g, " ") || "(none)"}`,
+    ...(item.parentId ? [`Part of: ${titleOf(item.parentId)}`] : []),
+    ...(item.dependsOn.length > 0 ? [`Comes after: ${item.dependsOn.map(titleOf).join(", ")}`] : []),
+    ...(item.estimateHours ? [`Current estimate: ${formatEstimate(item.estimateHours)}`] : [])
+  ]
+  return [
+    "You are helping an implementation consultant refine one step of an onboarding checklist.",
+    "",
+    ...instructions[action],
+    "",
+    ...details,
+    "",
+    "The whole checklist:",
+    ...outline
+  ].join("\n")
+}
+
+/** Validates one reply for `action`. Throws when it can't be used at all, so the route can ask again. */
+export function parseStepActionReply(action: StepAiAction, text: string): { result: StepActionResult; report: GenerationReport } {
+  const { value, repaired } = extractJson(text)
+  const raw = value as any
+
+  if (action === "rewrite") {
+    const description = typeof raw?.description === "string" ? raw.description.trim() : ""
+    if (!description) throw new Error("the reply has no description")
+    return { result: { action, description }, report: { repaired, dropped: [] } }
+  }
+
+  if (action === "estimate") {
+    let hours = raw?.hours
+    if (typeof hours === "string" && Number.isFinite(parseFloat(hours))) {
+      hours = parseFloat(hours)
+      repaired.push(`Read the hours from "${raw.hours}"`)
+    }
+    if (typeof hours !== "number" || !Number.isFinite(hours) || hours <= 0) {
+      throw new Error("the reply has no positive number of hours")
+    }
+    const rationale = typeof raw.rationale === "string" && raw.rationale.trim() ? raw.rationale.trim() : "No reason given"
+    // The schedule editor works in half hours
+    return { result: { action, hours: Math.max(0.5, Math.round(hours * 2) / 2), rationale }, report: { repaired, dropped: [] } }
+  }
+
+  const { items, report } = normalizeGeneratedSteps(value)
+  if (action === "split" && items.length < 2) throw new Error("a split needs at least two steps")
+  return { result: { action, items }, report: { repaired: [...repaired, ...report.repaired], dropped: report.dropped } }
+}
+
+function withAction(item: ChecklistItem, action: StepAiAction): ChecklistItem {
+  const aiActions = item.aiActions ?? []
+  return { ...item, aiGenerated: true, aiActions: aiActions.includes(action) ? aiActions : [...aiActions, action] }
+}
+
+/**
+ * Applies a previewed result. Rewrites and estimates change the step itself;
+ * expanding adds sub-steps after its existing ones. Splitting puts the new
+ * steps in its place: those with no dependency among themselves take over
+ * its prerequisites, all of them keep its conditions, and steps that waited
+ * for it wait for every new step nothing else depends on. An any-of group
+ * that listed it takes the last of those instead, since it only ever needed one.
+ */
+export function applyStepAction(items: ChecklistItem[], itemId: string, result: StepActionResult): ChecklistItem[] {
+  const target = items.find(i => i.id === itemId)
+  if (!target) return items
+
+  if (result.action === "rewrite") {
+    return items.map(i => (i.id === itemId ? withAction({ ...i, description: result.description }, "rewrite") : i))
+  }
+  if (result.action === "estimate") {
+    return items.map(i => (i.id === itemId ? withAction({ ...i, estimateHours: result.hours }, "estimate") : i))
+  }
+
+  if (result.action === "expand") {
+    const subtree = new Set([itemId, ...descendantIds(items, itemId)])
+    const lastIndex = items.reduce((last, item, index) => (subtree.has(item.id) ? index : last), 0)
+    const children = result.items.map(child => withAction({ ...child, parentId: itemId }, "expand"))
+    return [...items.slice(0, lastIndex + 1), ...children, ...items.slice(lastIndex + 1)]
+  }
+
+  const newIds = new Set(result.items.map(i => i.id))
+  const sinks = result.items.filter(step => !result.items.some(other => other.dependsOn.includes(step.id))).map(s => s.id)
+  const replacements = result.items.map(step => {
+    const isRoot = !step.dependsOn.some(dep => newIds.has(dep))
+    return withAction({
+      ...step,
+      parentId: target.parentId,
+      dependsOn: isRoot ? [...target.dependsOn, ...step.dependsOn] : step.dependsOn,
+      anyOf: isRoot ? target.anyOf : undefined,
+      conditions: target.conditions,
+      assignee: target.assignee,
+      due: target.due
+    }, "split")
+  })
+
+  const index = items.findIndex(i => i.id === itemId)
+  const rest = items.map(item => {
+    if (item.id === itemId) return item
+    const dependsOn = item.dependsOn.includes(itemId)
+      ? Array.from(new Set(item.dependsOn.flatMap(dep => (dep === itemId ? sinks : [dep]))))
+      : item.dependsOn
+    const anyOf = item.anyOf?.some(group => group.includes(itemId))
+      ? item.anyOf.map(group => Array.from(new Set(group.map(id => (id === itemId ? sinks[sinks.length - 1] : id)))))
+      : item.anyOf
+    return dependsOn === item.dependsOn && anyOf === item.anyOf ? item : { ...item, dependsOn, anyOf }
+  })
+  return [...rest.slice(0, index), ...replacements, ...rest.slice(index + 1)]
+}
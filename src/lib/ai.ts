@@ -0,0 +1,288 @@
+import { ChecklistItem } from "@/types/checklist"
+import { repairDependencyGraph } from "@/lib/graph"
+
+// Shared by the AI panel and the /api/generate route. Provider
+// implementations live in src/lib/server/ai-providers.ts.
+
+export type AiProviderId = "gemini" | "openai" | "mock"
+
+export type AiProviderInfo = {
+  id: AiProviderId
+  label: string
+  models: string[]        // Suggestions; any model name the provider accepts works
+  defaultModel: string
+  requiresKey: boolean
+  hasServerKey: boolean   // The server has its own key, so the browser doesn't need one
+}
+
+export type GenerateRequest = {
+  provider: AiProviderId
+  model?: string
+  apiKey?: string
+  prompt: string
+  existing?: string[]     // Titles already in the checklist, to avoid repeats
+}
+
+export const aiProviderIds: AiProviderId[] = ["gemini", "openai", "mock"]
+
+export const aiProviderLabels: Record<AiProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible",
+  mock: "Mock (offline)"
+}
+
+export function isAiProviderId(value: unknown): value is AiProviderId {
+  return aiProviderIds.includes(value as AiProviderId)
+}
+
+/** What was wrong with a model's reply and how it was handled. */
+export type GenerationReport = {
+  repaired: string[]
+  dropped: string[]
+}
+
+/**
+ * The shape requested from every provider. Steps refer to each other by a
+ * short `key` rather than ids; real ids are assigned on our side.
+ */
+export const generatedChecklistSchema = {
+  type: "object",
+  properties: {
+    steps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Short unique reference for this step, e.g. s1" },
+          title: { type: "string" },
+          description: { type: "string" },
+          dependsOn: { type: "array", items: { type: "string" }, description: "Keys of steps that must be done first" }
+        },
+        required: ["key", "title", "description", "dependsOn"]
+      }
+    }
+  },
+  required: ["steps"]
+}
+
+// The reply asked for, spelled out in the prompt and again when re-prompting
+export const generatedChecklistShape = '{"steps": [...]}'
+
+export function buildChecklistPrompt(prompt: string, existing: string[] = []): string {
+  return [
+    "You are an expert onboarding assistant. Generate a detailed, step-by-step checklist.",
+    "",
+    "Requirements:",
+    `- Return ONLY valid JSON of the form ${generatedChecklistShape} (no markdown, no explanations)`,
+    "- Each step must have: key (short unique reference such as s1), title (string), description (string), dependsOn (array of keys of earlier steps)",
+    "- Create 8-12 logical steps",
+    "- Use dependencies to show order (e.g., setup before config)",
+    "- Make titles clear and action-oriented",
+    "- Add helpful descriptions",
+    ...(existing.length > 0 ? [`- Don't repeat these existing steps: ${existing.join("; ")}`] : []),
+    "",
+    `User request: ${prompt}`
+  ].join("\n")
+}
+
+/**
+ * Asks again after a reply that couldn't be used, quoting what was wrong with
+ * it. `shape` is the JSON the original prompt asked for.
+ */
+export function buildRetryPrompt(prompt: string, problem: string, shape: string): string {
+  return [
+    prompt,
+    "",
+    `Your previous reply could not be used: ${problem}.`,
+    `Reply again with ONLY the JSON object ${shape}, nothing before or after it.`
+  ].join("\n")
+}
+
+/**
+ * Pulls JSON out of a reply, repairing the usual ways models wrap or break
+ * it: Markdown code fences, sentences around the JSON, trailing commas.
+ * Throws when nothing parses.
+ */
+export function extractJson(text: string): { value: unknown; repaired: string[] } {
+  const repaired: string[] = []
+  const attempt = (candidate: string) => {
+    try {
+      return { ok: true as const, value: JSON.parse(candidate) }
+    } catch {
+      return { ok: false as const }
+    }
+  }
+
+  let candidate = text.trim()
+  let result = attempt(candidate)
+  if (result.ok) return { value: result.value, repaired }
+
+  const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) {
+    candidate = fenced[1].trim()
+    repaired.push("Removed a Markdown code fence around the JSON")
+    result = attempt(candidate)
+    if (result.ok) return { value: result.value, repaired }
+  }
+
+  const start = candidate.search(/[[{]/)
+  const end = Math.max(candidate.lastIndexOf("]"), candidate.lastIndexOf("}"))
+  if (start > 0 || (end >= 0 && end < candidate.length - 1)) {
+    candidate = candidate.slice(Math.max(0, start), end + 1)
+    repaired.push("Ignored text before or after the JSON")
+    result = attempt(candidate)
+    if (result.ok) return { value: result.value, repaired }
+  }
+
+  const withoutTrailingCommas = candidate.replace(/,\s*([\]}])/g, "$1")
+  if (withoutTrailingCommas !== candidate) {
+    repaired.push("Removed trailing commas")
+    result = attempt(withoutTrailingCommas)
+    if (result.ok) return { value: result.value, repaired }
+  }
+
+  throw new Error("the reply is not valid JSON")
+}
+
+/**
+ * The step objects already complete in a reply that's still streaming in:
+ * `{"steps": [{...}, {...}, {"ti` gives the first two. Reads the first
+ * array in the text, so a bare list of steps works too.
+ */
+export function readCompleteSteps(text: string): unknown[] {
+  const start = text.indexOf("[")
+  if (start === -1) return []
+  const steps: unknown[] = []
+  let depth = 0
+  let objectStart = -1
+  let inString = false
+  let escaped = false
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === "\\") escaped = true
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === "{" || char === "[") {
+      if (depth === 0) objectStart = char === "{" ? i : -1
+      depth++
+    } else if (char === "}" || char === "]") {
+      if (depth === 0) break  // the end of the list itself
+      depth--
+      if (depth === 0 && objectStart !== -1) {
+        const slice = text.slice(objectStart, i + 1)
+        try {
+          steps.push(JSON.parse(slice))
+        } catch {
+          try {
+            steps.push(JSON.parse(slice.replace(/,\s*([\]}])/g, "$1")))
+          } catch {}
+        }
+      }
+    }
+  }
+  return steps
+}
+
+/**
+ * Checks a parsed reply against the schema and turns it into checklist
+ * items with fresh ids. Dependencies are matched by key, by the model's own
+ * id, by title or by position; anything that still doesn't match is dropped
+ * and reported, so no item ever points at a step that doesn't exist.
+ */
+export function normalizeGeneratedSteps(value: unknown): { items: ChecklistItem[]; report: GenerationReport } {
+  const report: GenerationReport = { repaired: [], dropped: [] }
+  const raw = value as any
+  const list: unknown[] | null = Array.isArray(raw)
+    ? raw
+    : Array.isArray(raw?.steps)
+      ? raw.steps
+      : Array.isArray(raw?.items)
+        ? raw.items
+        : null
+  if (!list) throw new Error("the reply has no list of steps")
+  if (Array.isArray(raw)) report.repaired.push('Accepted a bare list of steps instead of {"steps": [...]}')
+  else if (!Array.isArray(raw.steps)) report.repaired.push('Read the steps from "items" instead of "steps"')
+
+  const refs = new Map<string, string>()
+  const addRef = (ref: unknown, id: string) => {
+    const normalized = normalizeRef(ref)
+    if (normalized && !refs.has(normalized)) refs.set(normalized, id)
+  }
+
+  const accepted: { id: string; title: string; description?: string; deps: unknown[] }[] = []
+  list.forEach((entry, index) => {
+    const step = entry as any
+    const title = typeof step?.title === "string" ? step.title.trim() : ""
+    if (!title) {
+      report.dropped.push(`Step ${index + 1} had no title`)
+      return
+    }
+    const duplicate = accepted.find(a => a.title.toLowerCase() === title.toLowerCase())
+    if (duplicate) {
+      report.dropped.push(`Dropped a second "${title}"`)
+      addRef(step.key, duplicate.id)
+      addRef(step.id, duplicate.id)
+      return
+    }
+
+    const id = crypto.randomUUID()
+    addRef(step.key, id)
+    addRef(step.id, id)
+    addRef(title, id)
+    addRef(String(index + 1), id)
+
+    let deps: unknown[] = []
+    if (Array.isArray(step.dependsOn)) {
+      deps = step.dependsOn
+    } else if (typeof step.dependsOn === "string" && step.dependsOn.trim()) {
+      deps = [step.dependsOn]
+      report.repaired.push(`Turned the dependency on "${title}" into a list`)
+    }
+    accepted.push({
+      id,
+      title,
+      description: typeof step.description === "string" && step.description.trim() ? step.description.trim() : undefined,
+      deps
+    })
+  })
+
+  if (accepted.length === 0) throw new Error("the reply has no usable steps")
+
+  const drafts: ChecklistItem[] = accepted.map(step => {
+    const dependsOn: string[] = []
+    step.deps.forEach(ref => {
+      const depId = refs.get(normalizeRef(ref))
+      if (!depId) {
+        report.dropped.push(`Dropped unknown dependency "${String(ref)}" from "${step.title}"`)
+      } else if (depId !== step.id && !dependsOn.includes(depId)) {
+        dependsOn.push(depId)
+      }
+    })
+    return {
+      id: step.id,
+      title: step.title,
+      description: step.description,
+      dependsOn,
+      aiGenerated: true,
+      createdAt: new Date().toISOString()
+    }
+  })
+
+  const graph = repairDependencyGraph(drafts)
+  report.dropped.push(...graph.messages)
+  return { items: graph.items, report }
+}
+
+function normalizeRef(ref: unknown): string {
+  return typeof ref === "string" || typeof ref === "number" ? String(ref).trim().toLowerCase() : ""
+}
+
+/** Extracts, validates and repairs one reply. Throws when it can't be used at all. */
+export function parseGeneratedChecklist(text: string): { items: ChecklistItem[]; report: GenerationReport } {
+  const { value, repaired } = extractJson(text)
+  const { items, report } = normalizeGeneratedSteps(value)
+  return { items, report: { repaired: [...repaired, ...report.repaired], dropped: report.dropped } }
+}
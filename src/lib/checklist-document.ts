@@ -0,0 +1,132 @@
+import { ChecklistItem, RunnerState, TemplateVariable } from "@/types/checklist"
+import { sanitizeChecklistItems, sanitizeRunnerState } from "@/lib/checklist"
+import { sanitizeTemplateVariables } from "@/lib/template"
+
+export const DOCUMENT_FORMAT = "smart-checklist"
+export const CURRENT_SCHEMA_VERSION = 8
+
+/**
+ * The exported file format. Version 1 was a bare `ChecklistItem[]` array with
+ * no envelope; anything older than CURRENT_SCHEMA_VERSION is upgraded through
+ * `migrations` on import.
+ */
+export type ChecklistDocument = {
+  format: typeof DOCUMENT_FORMAT
+  schemaVersion: number
+  name: string
+  exportedAt: string
+  items: ChecklistItem[]
+  variables?: TemplateVariable[]
+  runnerState?: RunnerState
+}
+
+// Each entry upgrades a document from version N to N + 1. Add a step here
+// whenever ChecklistItem changes shape; never edit an existing step.
+const migrations: Record<number, (doc: any) => any> = {
+  1: doc => ({
+    format: DOCUMENT_FORMAT,
+    schemaVersion: 2,
+    name: "Imported checklist",
+    exportedAt: new Date().toISOString(),
+    items: doc.items
+  }),
+  // runnerState flags (`true`) became completion records
+  2: doc => ({
+    ...doc,
+    schemaVersion: 3,
+    runnerState: doc.runnerState && typeof doc.runnerState === "object"
+      ? Object.fromEntries(
+          Object.entries(doc.runnerState)
+            .filter(([, done]) => done === true)
+            .map(([id]) => [id, { completedAt: doc.exportedAt }])
+        )
+      : doc.runnerState
+  }),
+  // Items gained anyOf, answers and conditions. All optional, so nothing to convert;
+  // the bump keeps older builds from importing these files and silently dropping them.
+  3: doc => ({ ...doc, schemaVersion: 4 }),
+  // Items gained parentId for sub-steps, also optional
+  4: doc => ({ ...doc, schemaVersion: 5 }),
+  // Items gained assignee, due and estimateHours, all optional
+  5: doc => ({ ...doc, schemaVersion: 6 }),
+  // Items gained aiActions, optional
+  6: doc => ({ ...doc, schemaVersion: 7 }),
+  // Documents gained template variables, optional
+  7: doc => ({ ...doc, schemaVersion: 8 })
+}
+
+export function createChecklistDocument(
+  name: string,
+  items: ChecklistItem[],
+  runnerState?: RunnerState,
+  variables?: TemplateVariable[]
+): ChecklistDocument {
+  return {
+    format: DOCUMENT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    items,
+    ...(variables?.length ? { variables } : {}),
+    ...(runnerState ? { runnerState } : {})
+  }
+}
+
+function detectSchemaVersion(raw: unknown): number {
+  if (Array.isArray(raw)) return 1
+  if (raw && typeof raw === "object") {
+    const version = (raw as any).schemaVersion
+    if (typeof version === "number" && Number.isInteger(version) && version >= 1) return version
+    throw new Error("Invalid format: missing or invalid schemaVersion")
+  }
+  throw new Error("Invalid format: expected a checklist document or an array of checklist items")
+}
+
+/**
+ * Upgrades any supported export (bare array or versioned document) to the
+ * current document shape and sanitizes its items and runner state.
+ */
+export function parseChecklistDocument(raw: unknown): { document: ChecklistDocument; messages: string[] } {
+  let version = detectSchemaVersion(raw)
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This file uses schema version ${version}, which is newer than this app supports (${CURRENT_SCHEMA_VERSION})`)
+  }
+
+  let doc: any = Array.isArray(raw) ? { schemaVersion: 1, items: raw } : raw
+  while (version < CURRENT_SCHEMA_VERSION) {
+    doc = migrations[version](doc)
+    version++
+  }
+
+  if (!Array.isArray(doc.items)) {
+    throw new Error("Invalid format: document must contain an items array")
+  }
+
+  const { items, messages } = sanitizeChecklistItems(doc.items)
+  const ids = new Set(items.map(i => i.id))
+  const exportedAt = typeof doc.exportedAt === "string" && !Number.isNaN(Date.parse(doc.exportedAt))
+    ? doc.exportedAt
+    : new Date().toISOString()
+  const variables = sanitizeTemplateVariables(doc.variables)
+  const runnerState = doc.runnerState === undefined
+    ? undefined
+    : Object.fromEntries(Object.entries(sanitizeRunnerState(doc.runnerState, exportedAt)).filter(([id]) => ids.has(id)))
+
+  return {
+    document: {
+      format: DOCUMENT_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      name: typeof doc.name === "string" && doc.name.trim() ? doc.name.trim() : "Imported checklist",
+      exportedAt,
+      items,
+      ...(variables ? { variables } : {}),
+      ...(runnerState ? { runnerState } : {})
+    },
+    messages
+  }
+}
+
+export function documentFileName(name: string, extension: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "checklist"
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`
+}
@@ -0,0 +1,152 @@
+import { ChecklistItem, RunnerState, StepCondition } from "@/types/checklist"
+import { repairParentLinks } from "@/lib/tree"
+import { sanitizeDueDate } from "@/lib/schedule"
+import { isStepAiAction } from "@/lib/ai-step-actions"
+
+function sanitizeIdList(raw: unknown[], selfId: string): string[] {
+  return Array.from(
+    new Set(
+      raw
+        .filter((d: any) => typeof d === "string")
+        .map((d: string) => d.trim())
+        .filter(Boolean)
+        .filter(dep => dep !== selfId)
+    )
+  )
+}
+
+export function createEmptyItem(): ChecklistItem {
+  return {
+    id: crypto.randomUUID(),
+    title: "",
+    description: "",
+    dependsOn: [],
+    createdAt: new Date().toISOString()
+  }
+}
+
+export function sanitizeChecklistItems(raw: unknown[]): { items: ChecklistItem[]; messages: string[] } {
+  const messages: string[] = []
+  const seen = new Set<string>()
+
+  const items: ChecklistItem[] = raw
+    .map((entry, index) => {
+      if (!entry || typeof entry !== "object") {
+        messages.push(`Skipped entry ${index}: not an object`)
+        return null
+      }
+
+      const candidateId = typeof (entry as any).id === "string" && (entry as any).id.trim()
+      let id = candidateId || crypto.randomUUID()
+      if (seen.has(id)) {
+        const newId = `${id}-${crypto.randomUUID().slice(0, 8)}`
+        messages.push(`Duplicate id "${id}" at index ${index} replaced with "${newId}"`)
+        id = newId
+      }
+      seen.add(id)
+
+      const rawTitle = typeof (entry as any).title === "string" ? (entry as any).title.trim() : ""
+      const title = rawTitle || "Untitled step"
+      const description = typeof (entry as any).description === "string" ? (entry as any).description : undefined
+
+      const rawDependsOn = (entry as any).dependsOn
+      const dependsOn = Array.isArray(rawDependsOn) ? sanitizeIdList(rawDependsOn, id) : []
+      if (rawDependsOn && !Array.isArray(rawDependsOn)) {
+        messages.push(`Entry "${title}" had invalid dependsOn; reset to []`)
+      }
+
+      const rawAnyOf = (entry as any).anyOf
+      const anyOf = Array.isArray(rawAnyOf)
+        ? rawAnyOf
+            .filter(Array.isArray)
+            .map((group: unknown[]) => sanitizeIdList(group, id))
+            .filter((group: string[]) => group.length > 0)
+        : []
+
+      const rawAnswers = (entry as any).answers
+      const answers = Array.isArray(rawAnswers)
+        ? Array.from(new Set(rawAnswers.filter((a: any) => typeof a === "string").map((a: string) => a.trim()).filter(Boolean))) as string[]
+        : []
+      if (answers.length === 1) {
+        messages.push(`Entry "${title}" had a single answer option; it needs at least two`)
+      }
+
+      const rawConditions = (entry as any).conditions
+      const conditions: StepCondition[] = Array.isArray(rawConditions)
+        ? rawConditions
+            .filter((c: any) => c && typeof c.stepId === "string" && c.stepId.trim() && c.stepId !== id && typeof c.equals === "string")
+            .map((c: any) => ({ stepId: c.stepId.trim(), equals: c.equals }))
+        : []
+
+      const rawParentId = (entry as any).parentId
+      const parentId = typeof rawParentId === "string" && rawParentId.trim() && rawParentId.trim() !== id
+        ? rawParentId.trim()
+        : undefined
+
+      const assignee = typeof (entry as any).assignee === "string" && (entry as any).assignee.trim()
+        ? (entry as any).assignee.trim()
+        : undefined
+      const due = sanitizeDueDate((entry as any).due)
+      if ((entry as any).due !== undefined && !due) {
+        messages.push(`Entry "${title}" had an invalid due date; removed`)
+      }
+      const rawEstimate = (entry as any).estimateHours
+      const estimateHours = typeof rawEstimate === "number" && Number.isFinite(rawEstimate) && rawEstimate > 0
+        ? rawEstimate
+        : undefined
+
+      const aiActions = Array.isArray((entry as any).aiActions)
+        ? Array.from(new Set(((entry as any).aiActions as unknown[]).filter(isStepAiAction)))
+        : []
+
+      const rawCreatedAt = typeof (entry as any).createdAt === "string" ? (entry as any).createdAt : ""
+      const createdAt = Number.isNaN(Date.parse(rawCreatedAt)) ? new Date().toISOString() : rawCreatedAt
+
+      return {
+        id,
+        title,
+        description,
+        parentId,
+        dependsOn,
+        anyOf: anyOf.length > 0 ? anyOf : undefined,
+        answers: answers.length > 1 ? answers : undefined,
+        conditions: conditions.length > 0 ? conditions : undefined,
+        assignee,
+        due,
+        estimateHours,
+        aiGenerated: Boolean((entry as any).aiGenerated),
+        aiActions: aiActions.length > 0 ? aiActions : undefined,
+        createdAt
+      } satisfies ChecklistItem
+    })
+    .filter(Boolean) as ChecklistItem[]
+
+  const tree = repairParentLinks(items)
+  return { items: tree.items, messages: [...messages, ...tree.messages] }
+}
+
+/**
+ * Accepts completion records as well as the `true` flags older versions
+ * stored. Migrated flags get `fallbackCompletedAt` since the real time was
+ * never recorded.
+ */
+export function sanitizeRunnerState(raw: unknown, fallbackCompletedAt = new Date().toISOString()): RunnerState {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {}
+  const state: RunnerState = {}
+  Object.entries(raw as Record<string, unknown>).forEach(([id, value]) => {
+    if (value === true) {
+      state[id] = { completedAt: fallbackCompletedAt }
+    } else if (value && typeof value === "object") {
+      const entry = value as any
+      state[id] = {
+        completedAt: typeof entry.completedAt === "string" && !Number.isNaN(Date.parse(entry.completedAt))
+          ? entry.completedAt
+          : fallbackCompletedAt,
+        completedBy: typeof entry.completedBy === "string" && entry.completedBy.trim() ? entry.completedBy : undefined,
+        note: typeof entry.note === "string" && entry.note.trim() ? entry.note : undefined,
+        answer: typeof entry.answer === "string" ? entry.answer : undefined
+      }
+    }
+  })
+  return state
+}
@@ -0,0 +1,316 @@
+import { Checklist, ChecklistItem, ChecklistRun, RunEvent, StepCompletion, TemplateVariable } from "@/types/checklist"
+import { sanitizeChecklistItems, sanitizeRunnerState } from "@/lib/checklist"
+import { repairDependencyGraph } from "@/lib/graph"
+import { sanitizeRuns } from "@/lib/runs"
+import { sameContent } from "@/lib/tab-sync"
+import { sanitizeTemplateVariables, sanitizeVariableValues } from "@/lib/template"
+import { repairParentLinks } from "@/lib/tree"
+
+// Live collaboration on one checklist. Each browser turns its edits into small
+// operations (diffChecklist) and posts them to /api/collab/[id]; the server
+// numbers every batch and broadcasts it to everyone in the session, and all
+// copies apply the batches in that order (applyOps). Two people editing the
+// same field at once therefore end up with whichever edit the server received
+// last, on every screen alike. Null in a field means "cleared", since JSON
+// has no undefined.
+
+type Cleared<T> = { [K in keyof T]?: T[K] | null }
+
+export type ItemFields = Cleared<Omit<ChecklistItem, "id" | "createdAt">>
+export type RunFields = Cleared<Pick<ChecklistRun, "name" | "values" | "archived">>
+export type ChecklistFields = { name?: string; variables?: TemplateVariable[] | null }
+
+export type CollabOp =
+  | { type: "checklist"; fields: ChecklistFields }
+  | { type: "item-add"; item: ChecklistItem; afterId: string | null }  // afterId null puts it first
+  | { type: "item-set"; itemId: string; fields: ItemFields }
+  | { type: "item-move"; itemId: string; afterId: string | null }
+  | { type: "item-remove"; itemId: string }
+  | { type: "run-add"; run: ChecklistRun }
+  | { type: "run-set"; runId: string; fields: RunFields }
+  | { type: "step"; runId: string; itemId: string; completion: StepCompletion | null }
+  | { type: "run-events"; runId: string; events: RunEvent[] }
+
+export type PresenceActivity = "viewing" | "editing"
+
+export type Presence = {
+  clientId: string
+  name: string
+  mode: "builder" | "runner" | "graph"
+  stepId?: string  // the step this person has focused, if any
+  activity: PresenceActivity
+}
+
+const ITEM_FIELDS: (keyof ItemFields)[] = [
+  "title", "description", "parentId", "dependsOn", "anyOf", "answers", "conditions",
+  "assignee", "due", "estimateHours", "aiGenerated", "aiActions"
+]
+// Fields whose edits can leave the step tree or dependency graph inconsistent
+const STRUCTURE_FIELDS: (keyof ItemFields)[] = ["parentId", "dependsOn", "anyOf", "answers", "conditions"]
+const RUN_FIELDS: (keyof RunFields)[] = ["name", "values", "archived"]
+
+function changedFields<T extends object>(before: T, after: T, keys: (keyof T)[]): Cleared<T> | null {
+  const fields: Cleared<T> = {}
+  keys.forEach(key => {
+    if (!sameContent(before[key] ?? null, after[key] ?? null)) fields[key] = after[key] ?? null
+  })
+  return Object.keys(fields).length > 0 ? fields : null
+}
+
+/** Ids in the longest run of `ids` whose positions in `before` already increase; these needn't move. */
+function unmovedIds(ids: string[], before: string[]): Set<string> {
+  const position = new Map(before.map((id, index) => [id, index]))
+  const tails: number[] = []  // index into ids of the smallest tail for each run length
+  const previous: number[] = []
+  ids.forEach((id, index) => {
+    const value = position.get(id)!
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (position.get(ids[tails[mid]])! < value) low = mid + 1
+      else high = mid
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1
+    tails[low] = index
+  })
+  const kept = new Set<string>()
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    kept.add(ids[index])
+  }
+  return kept
+}
+
+/** The operations that turn `before` into `after`. Which run is active is each person's own choice and isn't shared. */
+export function diffChecklist(before: Checklist, after: Checklist): CollabOp[] {
+  const ops: CollabOp[] = []
+
+  const checklistFields: ChecklistFields = {}
+  if (before.name !== after.name) checklistFields.name = after.name
+  if (!sameContent(before.variables ?? null, after.variables ?? null)) checklistFields.variables = after.variables ?? null
+  if (Object.keys(checklistFields).length > 0) ops.push({ type: "checklist", fields: checklistFields })
+
+  const beforeItems = new Map(before.items.map(i => [i.id, i]))
+  const afterIds = new Set(after.items.map(i => i.id))
+  before.items.filter(i => !afterIds.has(i.id)).forEach(i => ops.push({ type: "item-remove", itemId: i.id }))
+
+  const unmoved = unmovedIds(after.items.filter(i => beforeItems.has(i.id)).map(i => i.id), before.items.map(i => i.id))
+  after.items.forEach((item, index) => {
+    const afterId = index > 0 ? after.items[index - 1].id : null
+    const previous = beforeItems.get(item.id)
+    if (!previous) {
+      ops.push({ type: "item-add", item, afterId })
+      return
+    }
+    if (!unmoved.has(item.id)) ops.push({ type: "item-move", itemId: item.id, afterId })
+    const fields = changedFields(previous, item, ITEM_FIELDS)
+    if (fields) ops.push({ type: "item-set", itemId: item.id, fields })
+  })
+
+  const beforeRuns = new Map(before.runs.map(r => [r.id, r]))
+  after.runs.forEach(run => {
+    const previous = beforeRuns.get(run.id)
+    if (!previous) {
+      ops.push({ type: "run-add", run })
+      return
+    }
+    const fields = changedFields(previous, run, RUN_FIELDS)
+    if (fields) ops.push({ type: "run-set", runId: run.id, fields })
+    new Set([...Object.keys(previous.state), ...Object.keys(run.state)]).forEach(itemId => {
+      if (!sameContent(previous.state[itemId] ?? null, run.state[itemId] ?? null)) {
+        ops.push({ type: "step", runId: run.id, itemId, completion: run.state[itemId] ?? null })
+      }
+    })
+    const seen = new Set(previous.events.map(e => e.id))
+    const events = run.events.filter(e => !seen.has(e.id))
+    if (events.length > 0) ops.push({ type: "run-events", runId: run.id, events })
+  })
+
+  return ops
+}
+
+function assignFields<T extends object>(record: T, fields: object): T {
+  const next = { ...record }
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === null || value === undefined) delete next[key as keyof T]
+    else next[key as keyof T] = value as T[keyof T]
+  })
+  return next
+}
+
+function insertAfter(items: ChecklistItem[], item: ChecklistItem, afterId: string | null): ChecklistItem[] {
+  const index = afterId === null ? 0 : items.findIndex(i => i.id === afterId) + 1
+  // A step whose neighbour was removed meanwhile goes last rather than first
+  const at = afterId !== null && index === 0 ? items.length : index
+  return [...items.slice(0, at), item, ...items.slice(at)]
+}
+
+function updateRun(checklist: Checklist, runId: string, update: (run: ChecklistRun) => ChecklistRun): Checklist {
+  return { ...checklist, runs: checklist.runs.map(run => (run.id === runId ? update(run) : run)) }
+}
+
+function applyOp(checklist: Checklist, op: CollabOp): Checklist {
+  const items = checklist.items
+  switch (op.type) {
+    case "checklist":
+      return {
+        ...checklist,
+        name: op.fields.name ?? checklist.name,
+        variables: op.fields.variables === undefined ? checklist.variables : op.fields.variables ?? undefined
+      }
+    case "item-add":
+      if (items.some(i => i.id === op.item.id)) return checklist
+      return { ...checklist, items: insertAfter(items, op.item, op.afterId) }
+    case "item-set":
+      return { ...checklist, items: items.map(i => (i.id === op.itemId ? assignFields(i, op.fields) : i)) }
+    case "item-move": {
+      const item = items.find(i => i.id === op.itemId)
+      if (!item || op.afterId === op.itemId) return checklist
+      return { ...checklist, items: insertAfter(items.filter(i => i !== item), item, op.afterId) }
+    }
+    case "item-remove":
+      return { ...checklist, items: items.filter(i => i.id !== op.itemId) }
+    case "run-add":
+      if (checklist.runs.some(r => r.id === op.run.id)) return checklist
+      return { ...checklist, runs: [...checklist.runs, op.run] }
+    case "run-set":
+      return updateRun(checklist, op.runId, run => assignFields(run, op.fields))
+    case "step":
+      return updateRun(checklist, op.runId, run => {
+        const { [op.itemId]: _previous, ...state } = run.state
+        return { ...run, state: op.completion ? { ...state, [op.itemId]: op.completion } : state }
+      })
+    case "run-events":
+      return updateRun(checklist, op.runId, run => {
+        const seen = new Set(run.events.map(e => e.id))
+        return { ...run, events: [...run.events, ...op.events.filter(e => !seen.has(e.id))] }
+      })
+  }
+}
+
+function touchesStructure(op: CollabOp): boolean {
+  if (op.type === "item-set") return STRUCTURE_FIELDS.some(field => field in op.fields)
+  return op.type === "item-add" || op.type === "item-move" || op.type === "item-remove"
+}
+
+/**
+ * Applies operations in order. Edits that were fine on their own but clash
+ * together, like a dependency on a step someone else just deleted, are
+ * repaired the same way on every copy.
+ */
+export function applyOps(checklist: Checklist, ops: CollabOp[], at: string): Checklist {
+  const applied = ops.reduce(applyOp, checklist)
+  const items = ops.some(touchesStructure)
+    ? repairDependencyGraph(repairParentLinks(applied.items).items).items
+    : applied.items
+  return { ...applied, items, updatedAt: at }
+}
+
+function sanitizeItem(raw: unknown): ChecklistItem | null {
+  const item = sanitizeChecklistItems([raw]).items[0]
+  if (!item || typeof (raw as any)?.id !== "string") return null
+  // An emptied title is someone mid-edit, not a missing one
+  return typeof (raw as any).title === "string" ? { ...item, title: (raw as any).title } : item
+}
+
+function sanitizeItemFields(raw: unknown, current: ChecklistItem): ItemFields | null {
+  if (!raw || typeof raw !== "object") return null
+  const entries = Object.entries(raw).filter(([key]) => ITEM_FIELDS.includes(key as keyof ItemFields))
+  // Cleaned up in context, so a field is held to the same rules as in an imported step
+  const cleaned = sanitizeItem({ ...current, ...Object.fromEntries(entries.filter(([, value]) => value !== null)) })
+  if (!cleaned) return null
+  return Object.fromEntries(entries.map(([key, value]) => [key, value === null ? null : cleaned[key as keyof ChecklistItem] ?? null]))
+}
+
+function sanitizeOp(raw: any, checklist: Checklist): CollabOp | null {
+  const id = (value: unknown) => (typeof value === "string" && value.trim() ? value : null)
+  const afterId = (value: unknown) => id(value) ?? null
+  switch (raw?.type) {
+    case "checklist": {
+      const fields: ChecklistFields = {}
+      if (typeof raw.fields?.name === "string" && raw.fields.name.trim()) fields.name = raw.fields.name
+      if (raw.fields && "variables" in raw.fields) fields.variables = sanitizeTemplateVariables(raw.fields.variables) ?? null
+      return Object.keys(fields).length > 0 ? { type: "checklist", fields } : null
+    }
+    case "item-add": {
+      const item = sanitizeItem(raw.item)
+      return item && { type: "item-add", item, afterId: afterId(raw.afterId) }
+    }
+    case "item-set": {
+      const current = checklist.items.find(i => i.id === raw.itemId)
+      // Edits to a step someone else deleted are dropped
+      if (!current) return null
+      const fields = sanitizeItemFields(raw.fields, current)
+      return fields && { type: "item-set", itemId: current.id, fields }
+    }
+    case "item-move":
+      return id(raw.itemId) ? { type: "item-move", itemId: raw.itemId, afterId: afterId(raw.afterId) } : null
+    case "item-remove":
+      return id(raw.itemId) ? { type: "item-remove", itemId: raw.itemId } : null
+    case "run-add": {
+      const run = sanitizeRuns([raw.run])[0]
+      return run ? { type: "run-add", run } : null
+    }
+    case "run-set": {
+      if (!id(raw.runId) || !raw.fields || typeof raw.fields !== "object") return null
+      const fields: RunFields = {}
+      if (typeof raw.fields.name === "string" && raw.fields.name.trim()) fields.name = raw.fields.name
+      if ("values" in raw.fields) fields.values = sanitizeVariableValues(raw.fields.values) ?? null
+      if ("archived" in raw.fields) fields.archived = raw.fields.archived ? true : null
+      return { type: "run-set", runId: raw.runId, fields }
+    }
+    case "step": {
+      if (!id(raw.runId) || !id(raw.itemId)) return null
+      const completion = raw.completion ? sanitizeRunnerState({ [raw.itemId]: raw.completion })[raw.itemId] ?? null : null
+      return { type: "step", runId: raw.runId, itemId: raw.itemId, completion }
+    }
+    case "run-events": {
+      if (!id(raw.runId)) return null
+      return { type: "run-events", runId: raw.runId, events: sanitizeRuns([{ id: raw.runId, events: raw.events }])[0].events }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Validates a batch posted by a browser against the session's current copy.
+ * Null when the batch isn't a list of operations; single operations that
+ * can't apply any more, like an edit to a deleted step, are left out.
+ */
+export function sanitizeCollabOps(raw: unknown, checklist: Checklist): CollabOp[] | null {
+  if (!Array.isArray(raw)) return null
+  const ops: CollabOp[] = []
+  let current = checklist
+  raw.forEach(entry => {
+    const op = sanitizeOp(entry, current)
+    if (!op) return
+    ops.push(op)
+    current = applyOp(current, op)
+  })
+  return ops
+}
+
+export function sanitizePresence(raw: any, clientId: string): Presence {
+  return {
+    clientId,
+    name: typeof raw?.name === "string" && raw.name.trim() ? raw.name.trim().slice(0, 40) : "Guest",
+    mode: raw?.mode === "runner" || raw?.mode === "graph" ? raw.mode : "builder",
+    stepId: typeof raw?.stepId === "string" && raw.stepId ? raw.stepId : undefined,
+    activity: raw?.activity === "editing" ? "editing" : "viewing"
+  }
+}
+
+const PEER_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#9333ea", "#0891b2", "#db2777", "#65a30d"]
+
+/** A color that stays the same for one person throughout the session. */
+export function peerColor(clientId: string): string {
+  let hash = 0
+  for (const char of clientId) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length]
+}
+
+export function peerInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean)
+  return (words.length > 1 ? words[0][0] + words[words.length - 1][0] : name.slice(0, 2)).toUpperCase() || "?"
+}
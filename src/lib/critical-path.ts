@@ -0,0 +1,137 @@
+import { ChecklistItem, RunnerState } from "@/types/checklist"
+import { evaluateSteps } from "@/lib/dependencies"
+import { areNested } from "@/lib/tree"
+
+export type StepTiming = {
+  start: number   // Hours of work from now until the step can start
+  finish: number
+  slack: number   // Hours the step can slip without moving the finish
+  critical: boolean
+}
+
+export type CriticalPathResult = {
+  remainingHours: number
+  steps: Map<string, StepTiming>
+  criticalIds: string[]  // Open critical steps, in the order they'd be worked
+}
+
+// Each step is two nodes: its own work, and a finish milestone that also
+// waits for its sub-steps. Sub-steps start when their parent starts.
+type NodePart = "work" | "finish"
+type NodeKey = `${string}:${NodePart}`
+
+// Step ids may contain colons themselves, so split on the last one
+function parseKey(key: NodeKey): [string, NodePart] {
+  const split = key.lastIndexOf(":")
+  return [key.slice(0, split), key.slice(split + 1) as NodePart]
+}
+
+const EPSILON = 1e-6
+
+/**
+ * Forward and backward pass over the remaining work in a run. Done and
+ * skipped steps, parents, and steps without an estimate take no time. An
+ * any-of group waits on whichever of its members would finish first. Steps
+ * caught in a cycle are treated as having no prerequisites.
+ */
+export function computeCriticalPath(items: ChecklistItem[], state: RunnerState): CriticalPathResult {
+  const byId = new Map(items.map(i => [i.id, i]))
+  const states = evaluateSteps(items, state)
+  const childrenOf = new Map<string, string[]>()
+  items.forEach(item => {
+    if (item.parentId && byId.has(item.parentId)) {
+      childrenOf.set(item.parentId, [...(childrenOf.get(item.parentId) ?? []), item.id])
+    }
+  })
+  const isOpen = (id: string) => {
+    const status = states.get(id)
+    return status === "available" || status === "locked"
+  }
+  const duration = (id: string) =>
+    isOpen(id) && !childrenOf.has(id) ? byId.get(id)!.estimateHours ?? 0 : 0
+
+  const predecessors = new Map<NodeKey, NodeKey[]>()
+  const earliestFinish = new Map<NodeKey, number>()
+  const visiting = new Set<NodeKey>()
+
+  const finishOf = (key: NodeKey): number => {
+    const known = earliestFinish.get(key)
+    if (known !== undefined) return known
+    if (visiting.has(key)) return 0
+    visiting.add(key)
+    const [id, part] = parseKey(key)
+    const preds = part === "work" ? workPredecessors(byId.get(id)!) : finishPredecessors(id)
+    const start = Math.max(0, ...preds.map(finishOf))
+    const finish = start + (part === "work" ? duration(id) : 0)
+    visiting.delete(key)
+    predecessors.set(key, preds)
+    earliestFinish.set(key, finish)
+    return finish
+  }
+
+  const finishPredecessors = (id: string): NodeKey[] => [
+    `${id}:work`,
+    ...(childrenOf.get(id) ?? []).map((child): NodeKey => `${child}:finish`)
+  ]
+
+  const workPredecessors = (item: ChecklistItem): NodeKey[] => {
+    const refersTo = (id: string) => byId.has(id) && !areNested(items, item.id, id)
+    const preds: NodeKey[] = []
+    if (item.parentId && byId.has(item.parentId)) preds.push(`${item.parentId}:work`)
+    item.dependsOn.filter(refersTo).forEach(dep => preds.push(`${dep}:finish`))
+    ;(item.conditions ?? []).filter(c => refersTo(c.stepId)).forEach(c => preds.push(`${c.stepId}:finish`))
+    ;(item.anyOf ?? []).forEach(group => {
+      const members = group.filter(refersTo)
+      const live = members.filter(id => states.get(id) !== "skipped")
+      const candidates = (live.length > 0 ? live : members).map((id): NodeKey => `${id}:finish`)
+      if (candidates.length === 0) return
+      // Only the member that would finish first holds the step back
+      preds.push(candidates.reduce((best, key) => (finishOf(key) < finishOf(best) ? key : best)))
+    })
+    return preds
+  }
+
+  items.forEach(item => finishOf(`${item.id}:finish`))
+  const remainingHours = Math.max(0, ...Array.from(earliestFinish.values()))
+
+  const successors = new Map<NodeKey, NodeKey[]>()
+  predecessors.forEach((preds, key) => {
+    preds.forEach(pred => successors.set(pred, [...(successors.get(pred) ?? []), key]))
+  })
+
+  const latestFinish = new Map<NodeKey, number>()
+  const latestFinishOf = (key: NodeKey): number => {
+    const known = latestFinish.get(key)
+    if (known !== undefined) return known
+    latestFinish.set(key, remainingHours)  // Guards against cycles
+    const latest = Math.min(
+      remainingHours,
+      ...(successors.get(key) ?? []).map(next => {
+        const [id, part] = parseKey(next)
+        return latestFinishOf(next) - (part === "work" ? duration(id) : 0)
+      })
+    )
+    latestFinish.set(key, latest)
+    return latest
+  }
+
+  const steps = new Map<string, StepTiming>()
+  items.forEach(item => {
+    const key: NodeKey = `${item.id}:work`
+    const finish = finishOf(key)
+    const slack = Math.max(0, latestFinishOf(key) - finish)
+    steps.set(item.id, {
+      start: finish - duration(item.id),
+      finish,
+      slack,
+      critical: remainingHours > 0 && isOpen(item.id) && !childrenOf.has(item.id) && slack < EPSILON
+    })
+  })
+
+  const criticalIds = items
+    .filter(item => steps.get(item.id)!.critical)
+    .sort((a, b) => steps.get(a.id)!.start - steps.get(b.id)!.start)
+    .map(item => item.id)
+
+  return { remainingHours, steps, criticalIds }
+}
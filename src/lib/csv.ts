@@ -0,0 +1,222 @@
+import { ChecklistItem, RunnerState } from "@/types/checklist"
+import { ChecklistDocument, CURRENT_SCHEMA_VERSION, DOCUMENT_FORMAT, parseChecklistDocument } from "@/lib/checklist-document"
+
+export type CsvDelimiter = "," | ";"
+
+export type CsvField = "id" | "title" | "description" | "parent" | "dependsOn" | "completed"
+
+// Column index per field; null means the field isn't in the file.
+export type CsvColumnMapping = Record<CsvField, number | null>
+
+export const CSV_FIELDS: { field: CsvField; label: string; required?: boolean }[] = [
+  { field: "id", label: "ID" },
+  { field: "title", label: "Title", required: true },
+  { field: "description", label: "Description" },
+  { field: "parent", label: "Parent step" },
+  { field: "dependsOn", label: "Depends on" },
+  { field: "completed", label: "Completed" }
+]
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  id: ["id", "step id", "key"],
+  title: ["title", "step", "name", "task", "summary"],
+  description: ["description", "details", "notes", "desc"],
+  parent: ["parent", "parent id", "parent_id", "parent step", "under"],
+  dependsOn: ["depends on", "depends_on", "dependson", "dependencies", "prerequisites", "after"],
+  completed: ["completed", "done", "complete", "status", "checked"]
+}
+
+const TRUE_VALUES = new Set(["x", "yes", "y", "true", "1", "done", "completed", "complete", "✓", "✔"])
+const FALSE_VALUES = new Set(["", "no", "n", "false", "0", "open", "todo", "pending"])
+
+/**
+ * Picks the delimiter that appears most often outside quotes on the first
+ * line. Spreadsheets in many European locales export with `;`.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  let commas = 0
+  let semicolons = 0
+  let inQuotes = false
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes
+    else if (!inQuotes && (char === "\n" || char === "\r")) break
+    else if (!inQuotes && char === ",") commas++
+    else if (!inQuotes && char === ";") semicolons++
+  }
+  return semicolons > commas ? ";" : ","
+}
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, newlines and
+ * doubled quotes (`""`). Blank lines are kept so row numbers match the
+ * spreadsheet.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: a quoted field is never closed")
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function escapeCell(value: string, delimiter: CsvDelimiter): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: string[][], delimiter: CsvDelimiter = ","): string {
+  return rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join("\r\n") + "\r\n"
+}
+
+export function checklistToCsv(items: ChecklistItem[], runnerState: RunnerState = {}, delimiter: CsvDelimiter = ","): string {
+  const header = ["id", "title", "description", "parent", "depends_on", "completed"]
+  const rows = items.map(item => [
+    item.id,
+    item.title,
+    item.description ?? "",
+    item.parentId ?? "",
+    item.dependsOn.join(" | "),
+    runnerState[item.id] ? "yes" : ""
+  ])
+  return toCsv([header, ...rows], delimiter)
+}
+
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase())
+  const mapping = {} as CsvColumnMapping
+  CSV_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h))
+    mapping[field] = index === -1 ? null : index
+  })
+  if (mapping.title === null && headers.length > 0) {
+    mapping.title = mapping.id === 0 && headers.length > 1 ? 1 : 0
+  }
+  return mapping
+}
+
+/**
+ * Turns mapped CSV rows into a checklist document. Dependencies may name
+ * other rows by id or by title, separated by `|`, `,` or `;`, and the parent
+ * column names a single row the same way. Every row that
+ * had to be skipped or adjusted gets a message with its spreadsheet row number.
+ */
+export function csvRowsToDocument(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  { name = "Imported checklist", hasHeader = true }: { name?: string; hasHeader?: boolean } = {}
+): { document: ChecklistDocument; messages: string[] } {
+  if (mapping.title === null) {
+    throw new Error("Choose which column holds the step title")
+  }
+
+  const messages: string[] = []
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field]
+    return index === null ? "" : (row[index] ?? "").trim()
+  }
+
+  const firstRowNumber = hasHeader ? 2 : 1
+  const entries = (hasHeader ? rows.slice(1) : rows).flatMap((row, index) => {
+    const rowNumber = firstRowNumber + index
+    if (row.every(value => value.trim() === "")) return []
+    const title = cell(row, "title")
+    if (!title) {
+      messages.push(`Row ${rowNumber}: missing title; skipped`)
+      return []
+    }
+    return [{ rowNumber, row, title, id: cell(row, "id") || crypto.randomUUID() }]
+  })
+
+  const byId = new Map(entries.map(e => [e.id, e.id]))
+  const byTitle = new Map(entries.map(e => [e.title.toLowerCase(), e.id]))
+  const resolve = (ref: string) => byId.get(ref) ?? byTitle.get(ref.toLowerCase())
+
+  const runnerState: RunnerState = {}
+  const rawItems = entries.map(({ rowNumber, row, title, id }) => {
+    const dependsOn: string[] = []
+    cell(row, "dependsOn")
+      .split(/[|\n]/)
+      .map(ref => ref.trim())
+      .filter(Boolean)
+      .forEach(ref => {
+        // Titles may contain commas, so only split further when the whole reference doesn't match
+        const refs = resolve(ref) ? [ref] : ref.split(/[,;]/).map(r => r.trim()).filter(Boolean)
+        refs.forEach(part => {
+          const depId = resolve(part)
+          if (depId) dependsOn.push(depId)
+          else messages.push(`Row ${rowNumber}: depends on unknown step "${part}"; dependency dropped`)
+        })
+      })
+
+    const parentRef = cell(row, "parent")
+    const parentId = parentRef ? resolve(parentRef) : undefined
+    if (parentRef && !parentId) {
+      messages.push(`Row ${rowNumber}: parent step "${parentRef}" not found; imported at the top level`)
+    }
+
+    const completed = cell(row, "completed").toLowerCase()
+    if (TRUE_VALUES.has(completed)) {
+      runnerState[id] = { completedAt: new Date().toISOString() }
+    } else if (!FALSE_VALUES.has(completed)) {
+      messages.push(`Row ${rowNumber}: completion value "${cell(row, "completed")}" not recognised; treated as not done`)
+    }
+
+    return {
+      id,
+      title,
+      description: cell(row, "description") || undefined,
+      parentId,
+      dependsOn,
+      createdAt: new Date().toISOString()
+    }
+  })
+
+  const parsed = parseChecklistDocument({
+    format: DOCUMENT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    items: rawItems,
+    runnerState
+  })
+  return { document: parsed.document, messages: [...messages, ...parsed.messages] }
+}
@@ -0,0 +1,90 @@
+import { ChecklistItem, RunnerState } from "@/types/checklist"
+
+export type StepState = "done" | "available" | "locked" | "skipped"
+
+/** Every step this one refers to: plain dependencies, any-of members and condition sources. */
+export function prerequisiteIds(item: ChecklistItem): string[] {
+  return Array.from(new Set([
+    ...item.dependsOn,
+    ...(item.anyOf ?? []).flat(),
+    ...(item.conditions ?? []).map(c => c.stepId)
+  ]))
+}
+
+/** Done and skipped steps both let the steps after them unlock. */
+export function isSettled(state: StepState | undefined): boolean {
+  return state === "done" || state === "skipped"
+}
+
+/**
+ * Works out where each step stands in a run. A step is skipped when one of
+ * its conditions was answered differently, or when the step a condition asks
+ * about was skipped itself, so a whole branch drops out together. Sub-steps
+ * follow their parent while it's locked or skipped. Steps in a cycle or
+ * pointing at missing steps stay locked.
+ */
+export function evaluateSteps(items: ChecklistItem[], state: RunnerState): Map<string, StepState> {
+  const byId = new Map(items.map(i => [i.id, i]))
+  const result = new Map<string, StepState>()
+  const visiting = new Set<string>()
+
+  const evaluate = (id: string): StepState => {
+    const known = result.get(id)
+    if (known) return known
+    const item = byId.get(id)
+    if (!item || visiting.has(id)) return "locked"
+    visiting.add(id)
+    const status = evaluateItem(item)
+    visiting.delete(id)
+    result.set(id, status)
+    return status
+  }
+
+  const evaluateItem = (item: ChecklistItem): StepState => {
+    if (state[item.id]) return "done"
+
+    // Sub-steps open up with their parent and drop out with it
+    if (item.parentId && byId.has(item.parentId)) {
+      const parent = evaluate(item.parentId)
+      if (parent === "skipped" || parent === "locked") return parent
+    }
+
+    let waiting = false
+    for (const condition of item.conditions ?? []) {
+      const source = evaluate(condition.stepId)
+      if (source === "skipped") return "skipped"
+      if (source !== "done") {
+        waiting = true
+      } else if (state[condition.stepId]?.answer !== condition.equals) {
+        return "skipped"
+      }
+    }
+    if (waiting) return "locked"
+
+    if (!item.dependsOn.every(dep => isSettled(evaluate(dep)))) return "locked"
+    const groupsMet = (item.anyOf ?? []).every(group =>
+      group.some(id => evaluate(id) === "done") || group.every(id => evaluate(id) === "skipped")
+    )
+    return groupsMet ? "available" : "locked"
+  }
+
+  items.forEach(item => evaluate(item.id))
+  return result
+}
+
+/** Removes every reference to a deleted step, dropping any-of groups that end up empty. */
+export function removeStepReferences(items: ChecklistItem[], removedId: string): ChecklistItem[] {
+  return items.map(item => {
+    if (!prerequisiteIds(item).includes(removedId)) return item
+    const anyOf = item.anyOf
+      ?.map(group => group.filter(id => id !== removedId))
+      .filter(group => group.length > 0)
+    const conditions = item.conditions?.filter(c => c.stepId !== removedId)
+    return {
+      ...item,
+      dependsOn: item.dependsOn.filter(id => id !== removedId),
+      anyOf: anyOf?.length ? anyOf : undefined,
+      conditions: conditions?.length ? conditions : undefined
+    }
+  })
+}
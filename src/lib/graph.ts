@@ -0,0 +1,295 @@
+import { ChecklistItem } from "@/types/checklist"
+import { prerequisiteIds } from "@/lib/dependencies"
+import { areNested, descendantIds } from "@/lib/tree"
+
+export type GraphIssue =
+  | { kind: "cycle"; itemIds: string[] }
+  | { kind: "missing"; itemId: string; missingId: string }
+  | { kind: "unreachable"; itemId: string }
+  | { kind: "condition"; itemId: string; stepId: string; answer: string }
+  | { kind: "nested"; itemId: string; depId: string }
+
+/**
+ * What each step waits on. A sub-step waits on its parent unlocking, and
+ * waiting on a parent means waiting on all of its sub-steps, since a parent
+ * only completes once they do. Dependencies between a step and its own
+ * ancestors or sub-steps are left out; they're reported as "nested" instead.
+ */
+function waitEdges(items: ChecklistItem[]): Map<string, string[]> {
+  const ids = new Set(items.map(i => i.id))
+  const edges = new Map<string, string[]>()
+  items.forEach(item => {
+    const targets = new Set<string>()
+    prerequisiteIds(item)
+      .filter(dep => ids.has(dep) && !areNested(items, item.id, dep))
+      .forEach(dep => {
+        targets.add(dep)
+        descendantIds(items, dep).forEach(d => targets.add(d))
+      })
+    if (item.parentId && ids.has(item.parentId)) targets.add(item.parentId)
+    edges.set(item.id, Array.from(targets))
+  })
+  return edges
+}
+
+/**
+ * True when `itemId` depending on `depId` would close a cycle, i.e. `depId`
+ * already depends on `itemId` directly or transitively. A step depending on
+ * its own parent or sub-step counts too, since neither could ever finish.
+ */
+export function wouldCreateCycle(items: ChecklistItem[], itemId: string, depId: string): boolean {
+  if (itemId === depId || areNested(items, itemId, depId)) return true
+  const edges = waitEdges(items)
+  const stack = [depId, ...descendantIds(items, depId)]
+  const visited = new Set<string>()
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (current === itemId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+    edges.get(current)?.forEach(d => stack.push(d))
+  }
+  return false
+}
+
+// Tarjan's strongly connected components over the wait edges.
+function findCycles(items: ChecklistItem[]): string[][] {
+  const edges = waitEdges(items)
+  const index = new Map<string, number>()
+  const lowlink = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const cycles: string[][] = []
+  let counter = 0
+
+  const strongConnect = (id: string) => {
+    index.set(id, counter)
+    lowlink.set(id, counter)
+    counter++
+    stack.push(id)
+    onStack.add(id)
+
+    for (const dep of edges.get(id)!) {
+      if (!index.has(dep)) {
+        strongConnect(dep)
+        lowlink.set(id, Math.min(lowlink.get(id)!, lowlink.get(dep)!))
+      } else if (onStack.has(dep)) {
+        lowlink.set(id, Math.min(lowlink.get(id)!, index.get(dep)!))
+      }
+    }
+
+    if (lowlink.get(id) === index.get(id)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+
+      const selfLoop = component.length === 1 && edges.get(id)!.includes(id)
+      if (component.length > 1 || selfLoop) {
+        cycles.push(orderCycle(component, edges))
+      }
+    }
+  }
+
+  items.forEach(item => {
+    if (!index.has(item.id)) strongConnect(item.id)
+  })
+  return cycles
+}
+
+// Walks dependency edges inside one component so the cycle reads in order (A → B → C).
+function orderCycle(component: string[], edges: Map<string, string[]>): string[] {
+  const members = new Set(component)
+  const start = component[component.length - 1]
+  const path = [start]
+  const seen = new Set(path)
+  let current = start
+  while (true) {
+    const next = edges.get(current)!.find(d => members.has(d) && !seen.has(d))
+    if (!next) break
+    path.push(next)
+    seen.add(next)
+    current = next
+  }
+  return path
+}
+
+/**
+ * Finds every problem that would keep a step from ever unlocking in the
+ * runner: dependency cycles, references to steps that do not exist, conditions
+ * no answer can satisfy, dependencies between a step and its own parent or
+ * sub-steps, and steps that are blocked downstream of any of them.
+ */
+export function validateDependencyGraph(items: ChecklistItem[]): GraphIssue[] {
+  const byId = new Map(items.map(i => [i.id, i]))
+  const issues: GraphIssue[] = []
+
+  findCycles(items).forEach(itemIds => issues.push({ kind: "cycle", itemIds }))
+
+  items.forEach(item => {
+    prerequisiteIds(item)
+      .filter(dep => !byId.has(dep))
+      .forEach(missingId => issues.push({ kind: "missing", itemId: item.id, missingId }))
+    prerequisiteIds(item)
+      .filter(dep => byId.has(dep) && areNested(items, item.id, dep))
+      .forEach(depId => issues.push({ kind: "nested", itemId: item.id, depId }))
+    item.conditions
+      ?.filter(c => byId.has(c.stepId) && !byId.get(c.stepId)!.answers?.includes(c.equals))
+      .forEach(c => issues.push({ kind: "condition", itemId: item.id, stepId: c.stepId, answer: c.equals }))
+  })
+
+  // A step can unlock once its parent can, all of its dependencies, one step
+  // in each any-of group and every condition source can finish. It can
+  // finish once it can unlock and all of its sub-steps can finish. Anything
+  // that can't finish after the fixpoint is stuck.
+  const unlockable = new Set<string>()
+  const reachable = new Set<string>()
+  let changed = true
+  while (changed) {
+    changed = false
+    items.forEach(item => {
+      if (!unlockable.has(item.id) &&
+        (!item.parentId || !byId.has(item.parentId) || unlockable.has(item.parentId)) &&
+        item.dependsOn.every(dep => reachable.has(dep)) &&
+        (item.anyOf ?? []).every(group => group.some(dep => reachable.has(dep))) &&
+        (item.conditions ?? []).every(c => reachable.has(c.stepId))
+      ) {
+        unlockable.add(item.id)
+        changed = true
+      }
+      if (unlockable.has(item.id) && !reachable.has(item.id) &&
+        items.every(child => child.parentId !== item.id || reachable.has(child.id))
+      ) {
+        reachable.add(item.id)
+        changed = true
+      }
+    })
+  }
+
+  const directlyBroken = new Set<string>()
+  issues.forEach(issue => {
+    if (issue.kind === "cycle") issue.itemIds.forEach(id => directlyBroken.add(id))
+    if (issue.kind === "missing" || issue.kind === "condition" || issue.kind === "nested") directlyBroken.add(issue.itemId)
+  })
+  items.forEach(item => {
+    if (!reachable.has(item.id) && !directlyBroken.has(item.id)) {
+      issues.push({ kind: "unreachable", itemId: item.id })
+    }
+  })
+
+  return issues
+}
+
+export function describeGraphIssue(issue: GraphIssue, items: ChecklistItem[]): string {
+  const titleOf = (id: string) => {
+    const title = items.find(i => i.id === id)?.title
+    return `"${title || "Untitled"}"`
+  }
+
+  switch (issue.kind) {
+    case "cycle":
+      return issue.itemIds.length === 1
+        ? `${titleOf(issue.itemIds[0])} depends on itself`
+        : `Dependency cycle: ${[...issue.itemIds, issue.itemIds[0]].map(titleOf).join(" → ")}`
+    case "missing":
+      return `${titleOf(issue.itemId)} depends on a step that does not exist ("${issue.missingId}")`
+    case "unreachable":
+      return `${titleOf(issue.itemId)} can never unlock because an earlier step is part of a cycle or missing`
+    case "nested":
+      return `${titleOf(issue.itemId)} depends on ${titleOf(issue.depId)}, but one is a sub-step of the other`
+    case "condition":
+      return `${titleOf(issue.itemId)} only runs when ${titleOf(issue.stepId)} is answered "${issue.answer}", which is not one of its answers`
+  }
+}
+
+/**
+ * Drops references to missing steps, conditions no answer can satisfy, and
+ * any edge that would close a cycle, keeping edges in list order.
+ */
+export function repairDependencyGraph(items: ChecklistItem[]): { items: ChecklistItem[]; messages: string[] } {
+  const byId = new Map(items.map(i => [i.id, i]))
+  const messages: string[] = []
+  const repaired: ChecklistItem[] = items.map(item => ({
+    ...item,
+    dependsOn: [],
+    anyOf: item.anyOf ? [] : undefined,
+    conditions: item.conditions ? [] : undefined
+  }))
+  const titleOf = (id: string) => byId.get(id)?.title || "Untitled"
+
+  // True when the edge can stay; `repaired` only holds edges accepted so far
+  const keep = (item: ChecklistItem, dep: string) => {
+    if (!byId.has(dep)) {
+      messages.push(`Removed missing dependency "${dep}" from "${item.title || "Untitled"}"`)
+      return false
+    }
+    if (areNested(items, item.id, dep)) {
+      messages.push(`Removed "${item.title || "Untitled"}" → "${titleOf(dep)}" because one is a sub-step of the other`)
+      return false
+    }
+    if (wouldCreateCycle(repaired, item.id, dep)) {
+      messages.push(`Removed "${item.title || "Untitled"}" → "${titleOf(dep)}" to break a cycle`)
+      return false
+    }
+    return true
+  }
+
+  items.forEach((item, index) => {
+    const target = repaired[index]
+    item.dependsOn.forEach(dep => {
+      if (keep(item, dep)) target.dependsOn.push(dep)
+    })
+    item.anyOf?.forEach(group => {
+      const kept: string[] = []
+      target.anyOf!.push(kept)
+      group.forEach(dep => {
+        if (keep(item, dep)) kept.push(dep)
+      })
+    })
+    item.conditions?.forEach(condition => {
+      if (byId.has(condition.stepId) && !byId.get(condition.stepId)!.answers?.includes(condition.equals)) {
+        messages.push(`Removed the "${condition.equals}" condition on "${titleOf(condition.stepId)}" from "${item.title || "Untitled"}"`)
+        return
+      }
+      if (keep(item, condition.stepId)) target.conditions!.push(condition)
+    })
+  })
+
+  repaired.forEach(item => {
+    item.anyOf = item.anyOf?.filter(group => group.length > 0)
+    if (!item.anyOf?.length) item.anyOf = undefined
+    if (!item.conditions?.length) item.conditions = undefined
+  })
+
+  return { items: repaired, messages }
+}
+
+/**
+ * Longest-path depth of each step from the steps with no dependencies. Edges
+ * inside cycles or to missing steps are ignored so every step gets a column.
+ */
+export function computeDependencyDepths(items: ChecklistItem[]): Map<string, number> {
+  const edges = waitEdges(items)
+  const cyclic = new Set(findCycles(items).flat())
+  const depths = new Map<string, number>(items.map(i => [i.id, 0]))
+
+  // Bounded relaxation: without cycles the longest path has at most n - 1 edges.
+  for (let round = 0; round < items.length; round++) {
+    let changed = false
+    items.forEach(item => {
+      edges.get(item.id)!.forEach(dep => {
+        if (cyclic.has(dep) && cyclic.has(item.id)) return
+        const candidate = depths.get(dep)! + 1
+        if (candidate > depths.get(item.id)!) {
+          depths.set(item.id, candidate)
+          changed = true
+        }
+      })
+    })
+    if (!changed) break
+  }
+  return depths
+}
@@ -0,0 +1,68 @@
+import { Checklist } from "@/types/checklist"
+
+// Undo/redo for builder edits. Entries hold the checklist as it was before
+// the change: always its items, and runs or name too for changes that
+// replace them, such as imports. Runner progress is otherwise left alone, so
+// undoing a title edit never takes back checkmarks made since.
+
+export type SnapshotField = "name" | "variables" | "runs" | "activeRunId"
+
+export type ChecklistSnapshot = Pick<Checklist, "items"> & Partial<Pick<Checklist, SnapshotField>>
+
+export type HistoryEntry = {
+  label: string  // e.g. "Delete step", shown as "Undo Delete step"
+  before: ChecklistSnapshot
+  group?: string  // Consecutive changes in the same group, like keystrokes in one title, undo together
+  at: number
+}
+
+export type UndoHistory = {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+export const emptyHistory: UndoHistory = { past: [], future: [] }
+
+const MAX_ENTRIES = 100
+// A pause longer than this starts a new undo step even within a group
+export const GROUP_IDLE_MS = 2000
+
+export function takeSnapshot(checklist: Checklist, fields: SnapshotField[] = []): ChecklistSnapshot {
+  return { items: checklist.items, ...Object.fromEntries(fields.map(field => [field, checklist[field]])) }
+}
+
+function fieldsOf(snapshot: ChecklistSnapshot): SnapshotField[] {
+  return (Object.keys(snapshot) as (keyof ChecklistSnapshot)[]).filter((key): key is SnapshotField => key !== "items")
+}
+
+/** Adds a change, folding it into the previous entry when it continues the same group. Clears redo. */
+export function recordChange(history: UndoHistory, entry: HistoryEntry): UndoHistory {
+  const last = history.past[history.past.length - 1]
+  if (entry.group && last?.group === entry.group && entry.at - last.at < GROUP_IDLE_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, at: entry.at }], future: [] }
+  }
+  return { past: [...history.past, entry].slice(-MAX_ENTRIES), future: [] }
+}
+
+/** The snapshot to restore, with the current state saved for redo. Null when there's nothing to undo. */
+export function undoChange(history: UndoHistory, current: Checklist): { history: UndoHistory; snapshot: ChecklistSnapshot; label: string } | null {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+  const redo: HistoryEntry = { ...entry, group: undefined, before: takeSnapshot(current, fieldsOf(entry.before)) }
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, redo] },
+    snapshot: entry.before,
+    label: entry.label
+  }
+}
+
+export function redoChange(history: UndoHistory, current: Checklist): { history: UndoHistory; snapshot: ChecklistSnapshot; label: string } | null {
+  const entry = history.future[history.future.length - 1]
+  if (!entry) return null
+  const undo: HistoryEntry = { ...entry, group: undefined, before: takeSnapshot(current, fieldsOf(entry.before)) }
+  return {
+    history: { past: [...history.past, undo], future: history.future.slice(0, -1) },
+    snapshot: entry.before,
+    label: entry.label
+  }
+}
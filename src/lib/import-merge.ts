@@ -0,0 +1,206 @@
+import { ChecklistItem, RunnerState } from "@/types/checklist"
+import { normalizeTitle } from "@/lib/ai-merge"
+import { repairDependencyGraph } from "@/lib/graph"
+import { repairParentLinks } from "@/lib/tree"
+
+// Merging an imported checklist into the current one. "Current" is the
+// checklist being edited, "incoming" is the imported file.
+
+export type MergeSide = "current" | "incoming"
+
+// Fields compared between matched steps; id, createdAt and the AI markers aren't
+export type MergeField =
+  | "title"
+  | "description"
+  | "parentId"
+  | "dependsOn"
+  | "anyOf"
+  | "answers"
+  | "conditions"
+  | "assignee"
+  | "due"
+  | "estimateHours"
+
+export const mergeFields: MergeField[] = [
+  "title",
+  "description",
+  "parentId",
+  "dependsOn",
+  "anyOf",
+  "answers",
+  "conditions",
+  "assignee",
+  "due",
+  "estimateHours"
+]
+
+export const mergeFieldLabels: Record<MergeField, string> = {
+  title: "Title",
+  description: "Description",
+  parentId: "Parent",
+  dependsOn: "Dependencies",
+  anyOf: "Any-of groups",
+  answers: "Answers",
+  conditions: "Conditions",
+  assignee: "Assignee",
+  due: "Due",
+  estimateHours: "Estimate"
+}
+
+export type FieldChange = {
+  field: MergeField
+  current: ChecklistItem[MergeField]
+  incoming: ChecklistItem[MergeField]
+}
+
+/**
+ * One step's place in the merge. `key` is the step's id in the merged
+ * checklist: the current id for matched and removed steps, the imported id
+ * for added ones. Incoming steps have their references rewritten to those
+ * keys, so both sides can be compared directly.
+ */
+export type ItemDiff =
+  | { kind: "added"; key: string; incoming: ChecklistItem }
+  | { kind: "removed"; key: string; current: ChecklistItem }
+  | { kind: "changed"; key: string; current: ChecklistItem; incoming: ChecklistItem; matchedBy: "id" | "title"; changes: FieldChange[] }
+  | { kind: "unchanged"; key: string; current: ChecklistItem; incoming: ChecklistItem; matchedBy: "id" | "title" }
+
+// Keyed by the diff's key for added and removed steps, `${key}:${field}` for changed fields
+export type MergeChoices = Record<string, MergeSide>
+
+export function fieldChoiceKey(key: string, field: MergeField): string {
+  return `${key}:${field}`
+}
+
+// Dependency order doesn't matter; missing and empty values are the same
+function comparable(field: MergeField, value: unknown): string {
+  if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) return ""
+  if (field === "dependsOn") return JSON.stringify([...(value as string[])].sort())
+  return JSON.stringify(value)
+}
+
+function changedFields(current: ChecklistItem, incoming: ChecklistItem): FieldChange[] {
+  return mergeFields
+    .filter(field => comparable(field, current[field]) !== comparable(field, incoming[field]))
+    .map(field => ({ field, current: current[field], incoming: incoming[field] }))
+}
+
+/**
+ * Matches imported steps to current ones by id, then by title among the
+ * steps still unmatched, and lists what differs. Diffs follow the imported
+ * order, with removed steps at the end.
+ */
+export function diffChecklists(current: ChecklistItem[], incoming: ChecklistItem[]): ItemDiff[] {
+  const currentById = new Map(current.map(i => [i.id, i]))
+  const matches = new Map<string, { currentId: string; matchedBy: "id" | "title" }>()
+  const claimed = new Set<string>()
+
+  incoming.forEach(item => {
+    if (currentById.has(item.id)) {
+      matches.set(item.id, { currentId: item.id, matchedBy: "id" })
+      claimed.add(item.id)
+    }
+  })
+  incoming.forEach(item => {
+    if (matches.has(item.id)) return
+    const title = normalizeTitle(item.title)
+    const match = title ? current.find(c => !claimed.has(c.id) && normalizeTitle(c.title) === title) : undefined
+    if (match) {
+      matches.set(item.id, { currentId: match.id, matchedBy: "title" })
+      claimed.add(match.id)
+    }
+  })
+
+  const keyOf = (id: string) => matches.get(id)?.currentId ?? id
+  const translate = (item: ChecklistItem): ChecklistItem => ({
+    ...item,
+    id: keyOf(item.id),
+    parentId: item.parentId && keyOf(item.parentId),
+    dependsOn: item.dependsOn.map(keyOf),
+    anyOf: item.anyOf?.map(group => group.map(keyOf)),
+    conditions: item.conditions?.map(c => ({ ...c, stepId: keyOf(c.stepId) }))
+  })
+
+  const diffs: ItemDiff[] = incoming.map(raw => {
+    const incomingItem = translate(raw)
+    const match = matches.get(raw.id)
+    if (!match) return { kind: "added", key: incomingItem.id, incoming: incomingItem }
+    const currentItem = currentById.get(match.currentId)!
+    const changes = changedFields(currentItem, incomingItem)
+    return changes.length > 0
+      ? { kind: "changed", key: currentItem.id, current: currentItem, incoming: incomingItem, matchedBy: match.matchedBy, changes }
+      : { kind: "unchanged", key: currentItem.id, current: currentItem, incoming: incomingItem, matchedBy: match.matchedBy }
+  })
+  current.forEach(item => {
+    if (!claimed.has(item.id)) diffs.push({ kind: "removed", key: item.id, current: item })
+  })
+  return diffs
+}
+
+/** The imported side wins every conflict until the user picks otherwise. */
+export function defaultMergeChoices(diffs: ItemDiff[], side: MergeSide = "incoming"): MergeChoices {
+  const choices: MergeChoices = {}
+  diffs.forEach(diff => {
+    if (diff.kind === "added" || diff.kind === "removed") choices[diff.key] = side
+    if (diff.kind === "changed") diff.changes.forEach(change => (choices[fieldChoiceKey(diff.key, change.field)] = side))
+  })
+  return choices
+}
+
+/**
+ * Builds the merged checklist. Current steps keep their order; added steps
+ * go after the step they follow in the imported file. References to steps
+ * left out of the merge, and any cycles the chosen sides create together,
+ * are repaired and reported.
+ */
+export function applyImportMerge(
+  current: ChecklistItem[],
+  diffs: ItemDiff[],
+  choices: MergeChoices
+): { items: ChecklistItem[]; messages: string[] } {
+  const pick = (key: string): MergeSide => choices[key] ?? "incoming"
+  const resolved = new Map<string, ChecklistItem>()
+  diffs.forEach(diff => {
+    if (diff.kind === "unchanged") {
+      resolved.set(diff.key, diff.current)
+    } else if (diff.kind === "removed") {
+      if (pick(diff.key) === "current") resolved.set(diff.key, diff.current)
+    } else if (diff.kind === "added") {
+      if (pick(diff.key) === "incoming") resolved.set(diff.key, diff.incoming)
+    } else {
+      resolved.set(diff.key, diff.changes.reduce<ChecklistItem>(
+        (item, change) => (pick(fieldChoiceKey(diff.key, change.field)) === "incoming" ? { ...item, [change.field]: change.incoming } : item),
+        diff.current
+      ))
+    }
+  })
+
+  const order = current.map(i => i.id).filter(id => resolved.has(id))
+  let previous: string | undefined
+  diffs.forEach(diff => {
+    if (diff.kind === "removed" || !resolved.has(diff.key)) return
+    if (!order.includes(diff.key)) order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, diff.key)
+    previous = diff.key
+  })
+
+  const tree = repairParentLinks(order.map(id => resolved.get(id)!))
+  const graph = repairDependencyGraph(tree.items)
+  return { items: graph.items, messages: [...tree.messages, ...graph.messages] }
+}
+
+/** Ids of merged steps identical to the current version, whose runner progress still holds. */
+export function unchangedStepIds(current: ChecklistItem[], merged: ChecklistItem[]): Set<string> {
+  const currentById = new Map(current.map(i => [i.id, i]))
+  return new Set(
+    merged
+      .filter(item => {
+        const before = currentById.get(item.id)
+        return before && changedFields(before, item).length === 0
+      })
+      .map(item => item.id)
+  )
+}
+
+export function keepProgressFor(state: RunnerState, ids: Set<string>): RunnerState {
+  return Object.fromEntries(Object.entries(state).filter(([id]) => ids.has(id)))
+}
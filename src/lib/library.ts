@@ -0,0 +1,173 @@
+import { Checklist, ChecklistItem, ChecklistLibrary, RunnerState } from "@/types/checklist"
+import { sanitizeChecklistItems, sanitizeRunnerState } from "@/lib/checklist"
+import { createRun, sanitizeRuns } from "@/lib/runs"
+import { sanitizeTemplateVariables } from "@/lib/template"
+
+export const LIBRARY_KEY = "smart-checklist-library-v1"
+
+// Pre-library keys holding a single global checklist. Read once for migration.
+export const LEGACY_STORAGE_KEY = "smart-checklist-items-v1"
+export const LEGACY_RUNNER_KEY = "smart-checklist-runner-v1"
+
+export function createChecklist(name: string, items: ChecklistItem[] = [], runnerState: RunnerState = {}): Checklist {
+  const now = new Date().toISOString()
+  const run = createRun("Run 1", runnerState)
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || "Untitled checklist",
+    items,
+    runs: [run],
+    activeRunId: run.id,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export function duplicateChecklist(source: Checklist, existingNames: string[]): Checklist {
+  // Item ids stay the same so dependsOn references keep pointing at the copies.
+  return {
+    ...createChecklist(uniqueName(`${source.name} (copy)`, existingNames), source.items.map(item => ({ ...item }))),
+    variables: source.variables?.map(v => ({ ...v }))
+  }
+}
+
+export function uniqueName(base: string, existingNames: string[]): string {
+  const taken = new Set(existingNames.map(n => n.toLowerCase()))
+  if (!taken.has(base.toLowerCase())) return base
+  let n = 2
+  while (taken.has(`${base} ${n}`.toLowerCase())) n++
+  return `${base} ${n}`
+}
+
+export function updateChecklist(
+  library: ChecklistLibrary,
+  id: string,
+  update: (checklist: Checklist) => Checklist
+): ChecklistLibrary {
+  return {
+    ...library,
+    checklists: library.checklists.map(c =>
+      c.id === id ? { ...update(c), updatedAt: new Date().toISOString() } : c
+    )
+  }
+}
+
+export function removeChecklist(library: ChecklistLibrary, id: string): ChecklistLibrary {
+  const removed = library.checklists.find(c => c.id === id)
+  // Only checklists the server has seen need a delete sent to it
+  const pendingDeletes = removed?.revision !== undefined
+    ? [...(library.pendingDeletes ?? []), { id, revision: removed.revision }]
+    : library.pendingDeletes
+
+  const checklists = library.checklists.filter(c => c.id !== id)
+  if (checklists.length === 0) {
+    const fallback = createChecklist("Default")
+    return { activeId: fallback.id, checklists: [fallback], pendingDeletes }
+  }
+  const activeId = library.activeId === id
+    ? (checklists.find(c => !c.archived) ?? checklists[0]).id
+    : library.activeId
+  return { activeId, checklists, pendingDeletes }
+}
+
+// Derived from the local copy so reconciling the same state twice yields the same id
+export function conflictCopy(local: Checklist, names: string[]): Checklist {
+  return {
+    ...local,
+    id: `${local.id}-conflict-${Date.parse(local.updatedAt)}`,
+    name: uniqueName(`${local.name} (conflicted copy)`, names),
+    revision: undefined,
+    syncedAt: undefined
+  }
+}
+
+/** True when local edits haven't been pushed to the server yet. */
+export function isDirty(checklist: Checklist): boolean {
+  return !checklist.syncedAt || checklist.updatedAt > checklist.syncedAt
+}
+
+export function sanitizeChecklist(raw: unknown): Checklist | null {
+  if (!raw || typeof raw !== "object") return null
+  const entry = raw as any
+  if (typeof entry.id !== "string" || !entry.id.trim()) return null
+
+  const { items } = sanitizeChecklistItems(Array.isArray(entry.items) ? entry.items : [])
+  // Checklists saved before runs existed carry a single runnerState; it becomes the first run
+  const runs = sanitizeRuns(entry.runs)
+  if (runs.length === 0) runs.push(createRun("Run 1", sanitizeRunnerState(entry.runnerState)))
+  const activeRunId = runs.some(r => r.id === entry.activeRunId) ? entry.activeRunId : runs[0].id
+
+  const now = new Date().toISOString()
+  return {
+    id: entry.id,
+    name: typeof entry.name === "string" && entry.name.trim() ? entry.name : "Untitled checklist",
+    items,
+    variables: sanitizeTemplateVariables(entry.variables),
+    runs,
+    activeRunId,
+    archived: Boolean(entry.archived) || undefined,
+    createdAt: typeof entry.createdAt === "string" ? entry.createdAt : now,
+    updatedAt: typeof entry.updatedAt === "string" ? entry.updatedAt : now,
+    revision: typeof entry.revision === "number" ? entry.revision : undefined,
+    syncedAt: typeof entry.syncedAt === "string" ? entry.syncedAt : undefined
+  }
+}
+
+/** A stored library, or null when it has no usable checklists. */
+export function sanitizeLibrary(raw: unknown): ChecklistLibrary | null {
+  const stored = raw as any
+  if (!stored || !Array.isArray(stored.checklists)) return null
+  const checklists = stored.checklists.map(sanitizeChecklist).filter(Boolean) as Checklist[]
+  if (checklists.length === 0) return null
+  const activeId = checklists.some(c => c.id === stored.activeId) ? stored.activeId : checklists[0].id
+  const pendingDeletes = Array.isArray(stored.pendingDeletes)
+    ? stored.pendingDeletes.filter((d: any) => d && typeof d.id === "string")
+    : undefined
+  return { activeId, checklists, pendingDeletes }
+}
+
+function readJson(key: string): unknown {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+function migrateLegacyStorage(): ChecklistLibrary {
+  const legacyItems = readJson(LEGACY_STORAGE_KEY)
+  const { items } = sanitizeChecklistItems(Array.isArray(legacyItems) ? legacyItems : [])
+  const runnerState = sanitizeRunnerState(readJson(LEGACY_RUNNER_KEY))
+  const checklist = createChecklist("Default", items, runnerState)
+  return { activeId: checklist.id, checklists: [checklist] }
+}
+
+/**
+ * Loads the checklist library from localStorage. When only the pre-library
+ * single-checklist keys exist, their contents become a "Default" checklist.
+ * The old keys are only removed once the library is safely stored.
+ */
+export function loadLibrary(): ChecklistLibrary {
+  const stored = sanitizeLibrary(readJson(LIBRARY_KEY))
+  if (stored) return stored
+
+  const migrated = migrateLegacyStorage()
+  if (saveLibrary(migrated)) {
+    try {
+      localStorage.removeItem(LEGACY_STORAGE_KEY)
+      localStorage.removeItem(LEGACY_RUNNER_KEY)
+    } catch {}
+  }
+  return migrated
+}
+
+/** False when the library couldn't be stored, e.g. when storage is full. */
+export function saveLibrary(library: ChecklistLibrary): boolean {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(library))
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,159 @@
+import { ChecklistItem, RunnerState } from "@/types/checklist"
+import { ChecklistDocument, CURRENT_SCHEMA_VERSION, DOCUMENT_FORMAT, parseChecklistDocument } from "@/lib/checklist-document"
+import { flattenTree } from "@/lib/tree"
+
+const TASK_LINE = /^(\s*)[-*+]\s+\[( |x|X)\]\s+(.*)$/
+const BULLET_LINE = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const HEADING_LINE = /^#{1,6}\s+(.*?)\s*#*\s*$/
+const ID_COMMENT = /\s*<!--\s*id:\s*(.*?)\s*-->\s*$/
+const DEPENDS_LINE = /^_?Depends on:\s*(.*?)_?\s*(?:<!--\s*depends-on:\s*(.*?)\s*-->)?\s*$/i
+
+/**
+ * Renders a GitHub-style task list. Ids and dependency ids ride along in HTML
+ * comments so a round trip keeps the graph intact; the visible "Depends on"
+ * line uses titles for people reading the file. Sub-steps are nested lists.
+ */
+export function checklistToMarkdown(name: string, items: ChecklistItem[], runnerState: RunnerState = {}): string {
+  const titleOf = new Map(items.map(i => [i.id, i.title || "Untitled"]))
+  const lines = [`# ${name}`, ""]
+
+  flattenTree(items).forEach(({ item, depth }) => {
+    const indent = "  ".repeat(depth)
+    lines.push(`${indent}- [${runnerState[item.id] ? "x" : " "}] ${item.title || "Untitled"} <!-- id: ${item.id} -->`)
+
+    const description = item.description?.trim()
+    if (description) {
+      description.split(/\r?\n/).forEach(line => lines.push(line.trim() ? `${indent}  ${line}` : ""))
+    }
+
+    const deps = item.dependsOn.filter(dep => titleOf.has(dep))
+    if (deps.length > 0) {
+      if (description) lines.push("")
+      lines.push(`${indent}  _Depends on: ${deps.map(dep => titleOf.get(dep)).join(", ")}_ <!-- depends-on: ${deps.join(", ")} -->`)
+    }
+  })
+
+  return lines.join("\n") + "\n"
+}
+
+type ParsedBlock = {
+  title: string
+  id?: string
+  indent: number
+  parent?: ParsedBlock
+  checked: boolean
+  body: string[]
+  dependsOnIds?: string[]
+  dependsOnTitles?: string[]
+}
+
+/**
+ * Parses a Markdown task list (`- [ ] Title`) into a checklist document.
+ * Plain bullet or numbered lists are accepted when there are no task items,
+ * so an ordinary README list still imports. Indented lines under an item
+ * become its description, and indented list items become its sub-steps.
+ */
+export function parseMarkdownChecklist(markdown: string): { document: ChecklistDocument; messages: string[] } {
+  const lines = markdown.split(/\r?\n/)
+  const hasTasks = lines.some(line => TASK_LINE.test(line))
+  const messages: string[] = []
+  const blocks: ParsedBlock[] = []
+  let name: string | undefined
+  let current: ParsedBlock | null = null
+  // Open list items, outermost first, for working out which item a nested one belongs to
+  let open: ParsedBlock[] = []
+
+  lines.forEach(line => {
+    const task = line.match(TASK_LINE)
+    const bullet = !hasTasks ? line.match(BULLET_LINE) : null
+    if (task || bullet) {
+      const match = (task ?? bullet)!
+      const indent = match[1].replace(/\t/g, "    ").length
+      const rawTitle = task ? task[3] : bullet![2]
+      const idMatch = rawTitle.match(ID_COMMENT)
+      open = open.filter(block => block.indent < indent)
+      current = {
+        title: rawTitle.replace(ID_COMMENT, "").trim(),
+        id: idMatch?.[1],
+        indent,
+        parent: open[open.length - 1],
+        checked: task ? task[2].toLowerCase() === "x" : false,
+        body: []
+      }
+      open.push(current)
+      blocks.push(current)
+      return
+    }
+
+    const heading = line.match(HEADING_LINE)
+    if (heading) {
+      if (!name && blocks.length === 0) name = heading[1]
+      current = null
+      open = []
+      return
+    }
+
+    if (!current) return
+    if (line.trim() && !/^\s/.test(line)) {
+      // Unindented text ends the item
+      current = null
+      open = []
+      return
+    }
+
+    const dependsLine = line.trim().match(DEPENDS_LINE)
+    if (dependsLine) {
+      const block: ParsedBlock = current
+      if (dependsLine[2]) block.dependsOnIds = dependsLine[2].split(",").map(s => s.trim()).filter(Boolean)
+      block.dependsOnTitles = dependsLine[1].split(",").map(s => s.trim()).filter(Boolean)
+      return
+    }
+    const block: ParsedBlock = current
+    block.body.push(line.replace(new RegExp(`^ {${block.indent + 2},${block.indent + 4}}|^\\t+`), ""))
+  })
+
+  if (blocks.length === 0) {
+    throw new Error("No task list items found. Use lines like \"- [ ] Step title\"")
+  }
+
+  blocks.forEach(block => {
+    block.id ||= crypto.randomUUID()
+  })
+  const withIds = blocks.map(block => ({ ...block, id: block.id!, parentId: block.parent?.id }))
+  const idByTitle = new Map(withIds.map(b => [b.title.toLowerCase(), b.id]))
+
+  const rawItems = withIds.map(block => {
+    let dependsOn = block.dependsOnIds
+    if (!dependsOn && block.dependsOnTitles) {
+      dependsOn = block.dependsOnTitles.flatMap(title => {
+        const id = idByTitle.get(title.toLowerCase())
+        if (!id) messages.push(`"${block.title}" depends on unknown step "${title}"; dependency dropped`)
+        return id ? [id] : []
+      })
+    }
+    const description = block.body.join("\n").trim()
+    return {
+      id: block.id,
+      title: block.title,
+      description: description || undefined,
+      parentId: block.parentId,
+      dependsOn: dependsOn ?? [],
+      createdAt: new Date().toISOString()
+    }
+  })
+
+  const runnerState: RunnerState = {}
+  withIds.forEach(block => {
+    if (block.checked) runnerState[block.id] = { completedAt: new Date().toISOString() }
+  })
+
+  const parsed = parseChecklistDocument({
+    format: DOCUMENT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name: name ?? "Imported checklist",
+    exportedAt: new Date().toISOString(),
+    items: rawItems,
+    runnerState
+  })
+  return { document: parsed.document, messages: [...messages, ...parsed.messages] }
+}
@@ -0,0 +1,182 @@
+import { ChecklistItem, ChecklistRun, RunEvent, RunnerState } from "@/types/checklist"
+import { sanitizeRunnerState } from "@/lib/checklist"
+import { toCsv } from "@/lib/csv"
+import { evaluateSteps, isSettled } from "@/lib/dependencies"
+import { sanitizeVariableValues } from "@/lib/template"
+import { flattenTree } from "@/lib/tree"
+
+export type RunStatus = "not-started" | "in-progress" | "completed" | "archived"
+
+export function createRun(name: string, state: RunnerState = {}): ChecklistRun {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || "Untitled run",
+    state,
+    events: [],
+    startedAt: new Date().toISOString()
+  }
+}
+
+function sanitizeEvents(raw: unknown): RunEvent[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter(e => e && typeof e === "object" && typeof e.itemId === "string" && ["check", "uncheck", "note"].includes(e.type))
+    .map(e => ({
+      id: typeof e.id === "string" ? e.id : crypto.randomUUID(),
+      itemId: e.itemId,
+      type: e.type,
+      at: typeof e.at === "string" && !Number.isNaN(Date.parse(e.at)) ? e.at : new Date(0).toISOString(),
+      by: typeof e.by === "string" && e.by.trim() ? e.by : undefined,
+      note: typeof e.note === "string" && e.note.trim() ? e.note : undefined,
+      answer: typeof e.answer === "string" ? e.answer : undefined
+    }))
+}
+
+export function sanitizeRuns(raw: unknown): ChecklistRun[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter(entry => entry && typeof entry === "object" && typeof entry.id === "string" && entry.id.trim())
+    .map(entry => {
+      const startedAt = typeof entry.startedAt === "string" && !Number.isNaN(Date.parse(entry.startedAt))
+        ? entry.startedAt
+        : new Date().toISOString()
+      return {
+        id: entry.id,
+        name: typeof entry.name === "string" && entry.name.trim() ? entry.name : "Untitled run",
+        state: sanitizeRunnerState(entry.state, startedAt),
+        events: sanitizeEvents(entry.events),
+        values: sanitizeVariableValues(entry.values),
+        startedAt,
+        archived: Boolean(entry.archived) || undefined
+      }
+    })
+}
+
+function createEvent(itemId: string, type: RunEvent["type"], by?: string, note?: string, answer?: string): RunEvent {
+  return {
+    id: crypto.randomUUID(),
+    itemId,
+    type,
+    at: new Date().toISOString(),
+    by: by?.trim() || undefined,
+    note: note?.trim() || undefined,
+    answer
+  }
+}
+
+/** Marks steps done and logs a check event for each one that wasn't already. */
+export function completeSteps(run: ChecklistRun, itemIds: string[], by?: string, note?: string): ChecklistRun {
+  const open = itemIds.filter(id => !run.state[id])
+  if (open.length === 0) return run
+  const events = open.map(id => createEvent(id, "check", by, note))
+  const state = { ...run.state }
+  events.forEach(event => {
+    state[event.itemId] = { completedAt: event.at, completedBy: event.by, note: event.note }
+  })
+  return { ...run, state, events: [...run.events, ...events] }
+}
+
+/** Completes a question step with one of its answers, replacing any earlier answer. */
+export function answerStep(run: ChecklistRun, itemId: string, answer: string, by?: string): ChecklistRun {
+  if (run.state[itemId]?.answer === answer) return run
+  const event = createEvent(itemId, "check", by, undefined, answer)
+  return {
+    ...run,
+    state: { ...run.state, [itemId]: { completedAt: event.at, completedBy: event.by, answer } },
+    events: [...run.events, event]
+  }
+}
+
+/** Reopens steps and logs an uncheck event for each one that was done. */
+export function uncompleteSteps(run: ChecklistRun, itemIds: string[], by?: string, note?: string): ChecklistRun {
+  const done = itemIds.filter(id => run.state[id])
+  if (done.length === 0) return run
+  const state = { ...run.state }
+  done.forEach(id => delete state[id])
+  return { ...run, state, events: [...run.events, ...done.map(id => createEvent(id, "uncheck", by, note))] }
+}
+
+export function setCompletionNote(run: ChecklistRun, itemId: string, note: string, by?: string): ChecklistRun {
+  const completion = run.state[itemId]
+  if (!completion) return run
+  return {
+    ...run,
+    state: { ...run.state, [itemId]: { ...completion, note: note.trim() || undefined } },
+    events: [...run.events, createEvent(itemId, "note", by, note)]
+  }
+}
+
+/**
+ * Completes parents whose sub-steps are all done (or skipped) and reopens
+ * parents whose sub-steps no longer are. Deepest parents go first so the
+ * change rolls all the way up.
+ */
+export function syncParentCompletion(run: ChecklistRun, items: ChecklistItem[], by?: string): ChecklistRun {
+  const parents = flattenTree(items)
+    .filter(row => row.childCount > 0)
+    .sort((a, b) => b.depth - a.depth)
+    .map(row => row.item.id)
+
+  return parents.reduce((current, parentId) => {
+    const states = evaluateSteps(items, current.state)
+    const children = items.filter(i => i.parentId === parentId).map(i => states.get(i.id))
+    // Sub-steps of a skipped parent are skipped with it, which doesn't make the parent done
+    const finished = children.every(isSettled) && states.get(parentId) !== "skipped"
+    if (finished && !current.state[parentId]) return completeSteps(current, [parentId], by, "All sub-steps done")
+    if (!finished && current.state[parentId]) return uncompleteSteps(current, [parentId], by, "A sub-step was reopened")
+    return current
+  }, run)
+}
+
+export const runEventLabels: Record<RunEvent["type"], string> = {
+  check: "Completed",
+  uncheck: "Reopened",
+  note: "Note"
+}
+
+/** One row per event, oldest first, for handing to clients as an audit record. */
+export function auditLogToCsv(run: ChecklistRun, items: ChecklistItem[]): string {
+  const titleOf = new Map(items.map(i => [i.id, i.title || "Untitled"]))
+  const rows = [...run.events]
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .map(event => [
+      event.at,
+      titleOf.get(event.itemId) ?? `(deleted step ${event.itemId})`,
+      runEventLabels[event.type],
+      event.by ?? "",
+      event.answer ?? "",
+      event.note ?? ""
+    ])
+  return toCsv([["time", "step", "action", "by", "answer", "note"], ...rows])
+}
+
+/**
+ * Counts only steps that still exist, so deleted steps don't inflate progress.
+ * Steps skipped by a condition are left out of the total, and parents are
+ * left out because their sub-steps already count.
+ */
+export function runProgress(run: ChecklistRun, items: ChecklistItem[]) {
+  const evaluated = evaluateSteps(items, run.state)
+  const states = items.filter(item => !items.some(i => i.parentId === item.id)).map(item => evaluated.get(item.id))
+  const done = states.filter(s => s === "done").length
+  const total = states.filter(s => s !== "skipped").length
+  return {
+    done,
+    total,
+    percent: total > 0 ? Math.round((done / total) * 100) : 0
+  }
+}
+
+export function runStatus(run: ChecklistRun, items: ChecklistItem[]): RunStatus {
+  if (run.archived) return "archived"
+  const { done, total } = runProgress(run, items)
+  if (total > 0 && done === total) return "completed"
+  return done > 0 ? "in-progress" : "not-started"
+}
+
+export const runStatusLabels: Record<RunStatus, string> = {
+  "not-started": "Not started",
+  "in-progress": "In progress",
+  completed: "Completed",
+  archived: "Archived"
+}
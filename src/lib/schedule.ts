@@ -0,0 +1,102 @@
+import { ChecklistItem, DueDate } from "@/types/checklist"
+
+export type RunnerFilter = "all" | "mine" | "overdue" | "this-week" | "critical"
+
+export const runnerFilterLabels: Record<RunnerFilter, string> = {
+  all: "All",
+  mine: "Mine",
+  overdue: "Overdue",
+  "this-week": "Due this week",
+  critical: "Critical path"
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+// Due dates are whole local days, compared as YYYY-MM-DD strings
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function isDateKey(value: unknown): value is string {
+  // Round-tripping rejects days that don't exist, like Feb 30
+  return typeof value === "string" && DATE_KEY.test(value) && toDateKey(fromDateKey(value)) === value
+}
+
+/** The calendar day a step is due in a run started at `startedAt`. */
+export function dueDateKey(item: ChecklistItem, startedAt: string): string | undefined {
+  if (!item.due) return undefined
+  if (item.due.kind === "date") return item.due.date
+  const start = new Date(startedAt)
+  start.setDate(start.getDate() + item.due.days)
+  return toDateKey(start)
+}
+
+export function isOverdue(dueKey: string | undefined, today = new Date()): boolean {
+  return dueKey !== undefined && dueKey < toDateKey(today)
+}
+
+/** Due between today and the coming Sunday. */
+export function isDueThisWeek(dueKey: string | undefined, today = new Date()): boolean {
+  if (dueKey === undefined) return false
+  const sunday = new Date(today)
+  sunday.setDate(today.getDate() + ((7 - today.getDay()) % 7))
+  return dueKey >= toDateKey(today) && dueKey <= toDateKey(sunday)
+}
+
+export function formatDateKey(key: string, options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" }): string {
+  return fromDateKey(key).toLocaleDateString(undefined, options)
+}
+
+/** How the rule reads in the builder, where there's no run start to resolve against. */
+export function describeDue(due: DueDate): string {
+  if (due.kind === "date") return formatDateKey(due.date)
+  return due.days === 0 ? "On start" : `Start + ${due.days} day${due.days === 1 ? "" : "s"}`
+}
+
+export function formatEstimate(hours: number): string {
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`
+}
+
+export const WORKING_HOURS_PER_DAY = 8
+
+/** Hours under a working day stay in hours; longer spans read as days. */
+export function formatDuration(hours: number): string {
+  if (hours < WORKING_HOURS_PER_DAY) return formatEstimate(hours)
+  const days = hours / WORKING_HOURS_PER_DAY
+  return `${Number.isInteger(days) ? days : days.toFixed(1)}d`
+}
+
+/**
+ * The working day on which `hours` of work starting on `from` would be done,
+ * at WORKING_HOURS_PER_DAY hours a day with weekends off.
+ */
+export function projectFinishDate(from: Date, hours: number): string {
+  const date = new Date(from)
+  const isWeekend = () => date.getDay() === 0 || date.getDay() === 6
+  while (isWeekend()) date.setDate(date.getDate() + 1)
+  let days = Math.max(1, Math.ceil(hours / WORKING_HOURS_PER_DAY))
+  while (days > 1) {
+    date.setDate(date.getDate() + 1)
+    if (!isWeekend()) days--
+  }
+  return toDateKey(date)
+}
+
+export function isAssignedTo(item: ChecklistItem, userName: string): boolean {
+  return !!userName.trim() && item.assignee?.trim().toLowerCase() === userName.trim().toLowerCase()
+}
+
+export function sanitizeDueDate(raw: unknown): DueDate | undefined {
+  if (!raw || typeof raw !== "object") return undefined
+  const due = raw as any
+  if (due.kind === "date" && isDateKey(due.date)) return { kind: "date", date: due.date }
+  if (due.kind === "offset" && Number.isInteger(due.days) && due.days >= 0) return { kind: "offset", days: due.days }
+  return undefined
+}
@@ -0,0 +1,247 @@
+import { AiProviderId, AiProviderInfo, aiProviderLabels, isAiProviderId } from "@/lib/ai"
+import { dependencySuggestionSchema } from "@/lib/ai-dependencies"
+import { stepActionSchemas } from "@/lib/ai-step-actions"
+import { readServerSentEvents } from "@/lib/sse"
+
+export type CompletionOptions = {
+  model: string
+  apiKey?: string
+  schema: object  // JSON schema the reply should follow, where the provider supports it
+  signal?: AbortSignal  // Aborts the upstream request
+}
+
+/**
+ * A text-completion backend for /api/generate. Providers only turn a prompt
+ * into text, whole or as it's produced, using their structured-output mode
+ * when they have one;
+ * prompting, validation and repair are shared in src/lib/ai.ts so every
+ * provider produces checklists the same way.
+ */
+export interface AiProvider {
+  id: AiProviderId
+  label: string
+  models: string[]
+  defaultModel: string
+  requiresKey: boolean
+  serverKey?: string
+  complete(prompt: string, options: CompletionOptions): Promise<string>
+  stream(prompt: string, options: CompletionOptions): AsyncIterable<string>
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const text = await response.text().catch(() => "")
+  let message = text
+  try {
+    message = JSON.parse(text)?.error?.message ?? text
+  } catch {}
+  return new Error(`${fallback} (${response.status})${message ? `: ${message}` : ""}`)
+}
+
+async function requestGemini(method: string, prompt: string, { model, apiKey, schema, signal }: CompletionOptions) {
+  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:${method}`
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey ?? "" },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: { responseMimeType: "application/json", responseSchema: schema }
+    }),
+    signal
+  })
+  if (!response.ok) throw await readError(response, "Gemini error")
+  return response
+}
+
+function geminiText(json: any): string {
+  const parts: any[] = json?.candidates?.[0]?.content?.parts ?? []
+  return parts.map(part => (typeof part?.text === "string" ? part.text : "")).join("")
+}
+
+const gemini: AiProvider = {
+  id: "gemini",
+  label: aiProviderLabels.gemini,
+  models: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.0-flash"],
+  defaultModel: process.env.GEMINI_MODEL ?? "gemini-2.5-flash",
+  requiresKey: true,
+  serverKey: process.env.GEMINI_API_KEY,
+  async complete(prompt, options) {
+    const response = await requestGemini("generateContent", prompt, options)
+    return geminiText(await response.json())
+  },
+  async *stream(prompt, options) {
+    const response = await requestGemini("streamGenerateContent?alt=sse", prompt, options)
+    for await (const { data } of readServerSentEvents(response.body!)) {
+      const text = geminiText(JSON.parse(data))
+      if (text) yield text
+    }
+  }
+}
+
+// OpenAI's strict mode wants every object closed; Gemini rejects the keyword
+function closeSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(closeSchema)
+  if (!schema || typeof schema !== "object") return schema
+  const closed = Object.fromEntries(Object.entries(schema).map(([key, value]) => [key, closeSchema(value)]))
+  return schema.type === "object" ? { ...closed, additionalProperties: false } : closed
+}
+
+async function requestOpenAi(prompt: string, { model, apiKey, schema, signal }: CompletionOptions, stream: boolean) {
+  const baseUrl = (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/+$/, "")
+  const send = (structured: boolean) => fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      ...(stream ? { stream: true } : {}),
+      ...(structured
+        ? { response_format: { type: "json_schema", json_schema: { name: "checklist", strict: true, schema: closeSchema(schema) } } }
+        : {})
+    }),
+    signal
+  })
+  let response = await send(true)
+  // Not every compatible server knows response_format; the prompt alone still asks for JSON
+  if (response.status === 400) response = await send(false)
+  if (!response.ok) throw await readError(response, "OpenAI-compatible endpoint error")
+  return response
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+// local one such as Ollama or LM Studio via OPENAI_BASE_URL.
+const openai: AiProvider = {
+  id: "openai",
+  label: aiProviderLabels.openai,
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini"],
+  defaultModel: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+  requiresKey: !process.env.OPENAI_BASE_URL,
+  serverKey: process.env.OPENAI_API_KEY,
+  async complete(prompt, options) {
+    const response = await requestOpenAi(prompt, options, false)
+    const json = await response.json()
+    return json?.choices?.[0]?.message?.content ?? ""
+  },
+  async *stream(prompt, options) {
+    const response = await requestOpenAi(prompt, options, true)
+    for await (const { data } of readServerSentEvents(response.body!)) {
+      if (data === "[DONE]") return
+      const text = JSON.parse(data)?.choices?.[0]?.delta?.content
+      if (typeof text === "string" && text) yield text
+    }
+  }
+}
+
+const MOCK_STEPS = [
+  { title: "Gather requirements", description: "Agree on scope and owners for" },
+  { title: "Set up the workspace", description: "Create accounts and environments for" },
+  { title: "Import existing data", description: "Load and check the starting data for" },
+  { title: "Configure workflows", description: "Set up approvals and automations for" },
+  { title: "Train the team", description: "Walk the team through" },
+  { title: "Go live", description: "Switch over and confirm everything works for" }
+]
+
+// Chains every step without dependencies to the top-level step listed before it
+function mockDependencies(prompt: string): string {
+  const steps = Array.from(prompt.matchAll(/^( *)(s\d+): (.*?)(?: \| after: ([^|\n]*))?(?: \| inside: .*)?$/gm))
+  const edges: { step: string; dependsOn: string; rationale: string }[] = []
+  let previous: { key: string; title: string } | null = null
+  steps.forEach(([, indent, key, title, after]) => {
+    if (indent) return
+    if (previous && !after) {
+      edges.push({ step: key, dependsOn: previous.key, rationale: `"${title}" comes after "${previous.title}" in the list.` })
+    }
+    previous = { key, title }
+  })
+  return JSON.stringify({ edges }, null, 2)
+}
+
+// Rewrites, sub-steps and estimates for the marked step of a step-action prompt
+function mockStepAction(prompt: string, schema: object): string {
+  const title = prompt.match(/^Marked step: (.*)$/m)?.[1]?.trim() || "this step"
+  if (schema === stepActionSchemas.rewrite) {
+    return JSON.stringify({ description: `Complete "${title}" and confirm with the owner that nothing is left open.` })
+  }
+  if (schema === stepActionSchemas.estimate) {
+    return JSON.stringify({ hours: 2, rationale: `A typical estimate for a step like "${title}".` })
+  }
+  const steps = ["Prepare", "Carry out", "Check"].map((verb, index) => ({
+    key: `s${index + 1}`,
+    title: `${verb}: ${title}`,
+    description: `${verb} the work for "${title}".`,
+    dependsOn: index > 0 ? [`s${index}`] : []
+  }))
+  return JSON.stringify({ steps }, null, 2)
+}
+
+// Streamed replies arrive a few characters at a time, slowly enough to watch
+const MOCK_CHUNK_LENGTH = 40
+const MOCK_CHUNK_DELAY_MS = 30
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+/**
+ * Returns the same reply for the same prompt, with no network calls, so the
+ * app can be developed and tested offline.
+ */
+const mock: AiProvider = {
+  id: "mock",
+  label: aiProviderLabels.mock,
+  models: ["mock"],
+  defaultModel: "mock",
+  requiresKey: false,
+  async complete(prompt, { schema }) {
+    if (schema === dependencySuggestionSchema) return mockDependencies(prompt)
+    if (Object.values(stepActionSchemas).includes(schema)) return mockStepAction(prompt, schema)
+    const subject = prompt.match(/User request: (.*)/)?.[1]?.trim() || "the project"
+    const steps = MOCK_STEPS.map((step, index) => ({
+      key: `s${index + 1}`,
+      title: step.title,
+      description: `${step.description} ${subject}.`,
+      dependsOn: index > 0 ? [`s${index}`] : []
+    }))
+    return JSON.stringify({ steps }, null, 2)
+  },
+  async *stream(prompt, options) {
+    const text = await this.complete(prompt, options)
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_LENGTH) {
+      await wait(MOCK_CHUNK_DELAY_MS, options.signal)
+      yield text.slice(i, i + MOCK_CHUNK_LENGTH)
+    }
+  }
+}
+
+const providers: Record<AiProviderId, AiProvider> = { gemini, openai, mock }
+
+export function getAiProvider(id: AiProviderId): AiProvider {
+  return providers[id]
+}
+
+/** AI_PROVIDER picks the default; otherwise the first provider with a server key, else Gemini. */
+export function defaultAiProvider(): AiProviderId {
+  const configured = process.env.AI_PROVIDER
+  if (isAiProviderId(configured)) return configured
+  return Object.values(providers).find(p => p.serverKey)?.id ?? "gemini"
+}
+
+export function describeAiProviders(): AiProviderInfo[] {
+  return Object.values(providers).map(({ id, label, models, defaultModel, requiresKey, serverKey }) => ({
+    id,
+    label,
+    models,
+    defaultModel,
+    requiresKey,
+    hasServerKey: !!serverKey
+  }))
+}
@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server"
+import {
+  buildRetryPrompt,
+  generatedChecklistSchema,
+  generatedChecklistShape,
+  isAiProviderId,
+  normalizeGeneratedSteps,
+  parseGeneratedChecklist,
+  readCompleteSteps
+} from "@/lib/ai"
+import { AiProvider, CompletionOptions, defaultAiProvider, getAiProvider } from "@/lib/server/ai-providers"
+import { formatServerSentEvent } from "@/lib/sse"
+
+// One re-prompt after an unusable reply; more rarely helps and doubles the wait
+const MAX_ATTEMPTS = 2
+
+export type ResolvedAiRequest = {
+  provider: AiProvider
+  options: Omit<CompletionOptions, "schema">
+}
+
+/**
+ * Reads the provider, model and key every AI route accepts. Returns an error
+ * response instead when the request can't be sent anywhere.
+ */
+export function resolveAiRequest(body: any): ResolvedAiRequest | NextResponse {
+  const providerId = body?.provider ?? defaultAiProvider()
+  if (!isAiProviderId(providerId)) {
+    return NextResponse.json({ error: `Unknown AI provider "${providerId}"` }, { status: 400 })
+  }
+  const provider = getAiProvider(providerId)
+
+  // A key typed into the panel wins over the server's own
+  const apiKey = (typeof body?.apiKey === "string" && body.apiKey.trim()) || provider.serverKey
+  if (provider.requiresKey && !apiKey) {
+    return NextResponse.json({ error: `Missing API key for ${provider.label}` }, { status: 400 })
+  }
+
+  const model = typeof body?.model === "string" && body.model.trim() ? body.model.trim() : provider.defaultModel
+  return { provider, options: { model, apiKey } }
+}
+
+/**
+ * Sends the prompt and parses the reply, re-prompting once with what was
+ * wrong when `parse` throws. `shape` is the JSON the prompt asks for, repeated
+ * in the re-prompt. Provider errors end the request straight away.
+ */
+export async function completeWithRetry<T extends { report: { repaired: string[] } }>(
+  { provider, options }: ResolvedAiRequest,
+  prompt: string,
+  { schema, shape }: { schema: object; shape: string },
+  parse: (text: string) => T
+): Promise<NextResponse> {
+  let problem = ""
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let text: string
+    try {
+      text = await provider.complete(attempt === 1 ? prompt : buildRetryPrompt(prompt, problem, shape), { ...options, schema })
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message || `${provider.label} request failed` }, { status: 502 })
+    }
+
+    try {
+      const result = parse(text)
+      if (attempt > 1) result.report.repaired.unshift(`Asked ${provider.label} again because ${problem}`)
+      return NextResponse.json({ ...result, provider: provider.id, model: options.model })
+    } catch (err: any) {
+      problem = err.message
+    }
+  }
+
+  return NextResponse.json(
+    { error: `${provider.label} didn't return a usable reply after ${MAX_ATTEMPTS} attempts: ${problem}` },
+    { status: 502 }
+  )
+}
+
+/**
+ * Streams checklist generation as server-sent events: `step` with each raw
+ * step as soon as it's complete, then `done` with the validated items and
+ * report, or `error`. Steps already sent are never taken back, so a reply
+ * that breaks after some steps keeps them instead of re-prompting, and the
+ * browser can fall back to them when the stream fails. Closing the
+ * connection or aborting `signal` aborts the upstream request.
+ */
+export function streamChecklist({ provider, options }: ResolvedAiRequest, prompt: string, signal: AbortSignal): Response {
+  const upstream = new AbortController()
+  signal.addEventListener("abort", () => upstream.abort(), { once: true })
+  const encoder = new TextEncoder()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!upstream.signal.aborted) controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+      }
+      const finish = (result: object) => send("done", { ...result, provider: provider.id, model: options.model })
+
+      let problem = ""
+      try {
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+          const steps: unknown[] = []
+          let text = ""
+          try {
+            const chunks = provider.stream(attempt === 1 ? prompt : buildRetryPrompt(prompt, problem, generatedChecklistShape), {
+              ...options,
+              schema: generatedChecklistSchema,
+              signal: upstream.signal
+            })
+            for await (const chunk of chunks) {
+              text += chunk
+              readCompleteSteps(text).slice(steps.length).forEach(step => {
+                steps.push(step)
+                send("step", step)
+              })
+            }
+          } catch (err: any) {
+            const message = err.message || `${provider.label} request failed`
+            send("error", { error: steps.length > 0 ? `The ${provider.label} reply broke off (${message})` : message })
+            return
+          }
+
+          try {
+            const result = parseGeneratedChecklist(text)
+            if (attempt > 1) result.report.repaired.unshift(`Asked ${provider.label} again because ${problem}`)
+            finish(result)
+            return
+          } catch (err: any) {
+            problem = err.message
+          }
+          if (steps.length > 0) {
+            const result = normalizeGeneratedSteps(steps)
+            result.report.repaired.unshift(`Kept the ${steps.length} steps that arrived complete, because ${problem}`)
+            finish(result)
+            return
+          }
+        }
+        send("error", { error: `${provider.label} didn't return a usable reply after ${MAX_ATTEMPTS} attempts: ${problem}` })
+      } catch (err: any) {
+        send("error", { error: err.message || "Generation failed" })
+      } finally {
+        try {
+          controller.close()
+        } catch {}
+      }
+    },
+    cancel() {
+      upstream.abort()
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  })
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { Checklist } from "@/types/checklist"
+
+export type StoredChecklist = Omit<Checklist, "syncedAt"> & { revision: number }
+
+export type WriteResult =
+  | { ok: true; checklist: StoredChecklist }
+  | { ok: false; reason: "not-found" }
+  | { ok: false; reason: "conflict"; current: StoredChecklist }
+
+/**
+ * Persistence backend for the /api/checklists routes. Writes use optimistic
+ * concurrency: callers pass the revision they last saw and get a conflict back
+ * when someone else saved in between.
+ */
+export interface ChecklistStore {
+  list(): Promise<StoredChecklist[]>
+  get(id: string): Promise<StoredChecklist | null>
+  create(checklist: Checklist): Promise<WriteResult>
+  update(checklist: Checklist, expectedRevision: number): Promise<WriteResult>
+  delete(id: string, expectedRevision?: number): Promise<WriteResult>
+}
+
+function toStored(checklist: Checklist, revision: number): StoredChecklist {
+  const { syncedAt: _syncedAt, ...rest } = checklist
+  return { ...rest, revision }
+}
+
+/**
+ * Keeps every checklist in a Map. Shared by the file store and usable on its
+ * own for tests or throwaway deployments.
+ */
+export class MemoryChecklistStore implements ChecklistStore {
+  protected checklists = new Map<string, StoredChecklist>()
+
+  async list() {
+    return Array.from(this.checklists.values())
+  }
+
+  async get(id: string) {
+    return this.checklists.get(id) ?? null
+  }
+
+  async create(checklist: Checklist): Promise<WriteResult> {
+    const current = this.checklists.get(checklist.id)
+    if (current) return { ok: false, reason: "conflict", current }
+    const stored = toStored(checklist, 1)
+    this.checklists.set(stored.id, stored)
+    await this.persist()
+    return { ok: true, checklist: stored }
+  }
+
+  async update(checklist: Checklist, expectedRevision: number): Promise<WriteResult> {
+    const current = this.checklists.get(checklist.id)
+    if (!current) return { ok: false, reason: "not-found" }
+    if (current.revision !== expectedRevision) return { ok: false, reason: "conflict", current }
+    const stored = toStored({ ...checklist, createdAt: current.createdAt }, current.revision + 1)
+    this.checklists.set(stored.id, stored)
+    await this.persist()
+    return { ok: true, checklist: stored }
+  }
+
+  async delete(id: string, expectedRevision?: number): Promise<WriteResult> {
+    const current = this.checklists.get(id)
+    if (!current) return { ok: false, reason: "not-found" }
+    if (expectedRevision !== undefined && current.revision !== expectedRevision) {
+      return { ok: false, reason: "conflict", current }
+    }
+    this.checklists.delete(id)
+    await this.persist()
+    return { ok: true, checklist: current }
+  }
+
+  protected async persist() {}
+}
+
+/**
+ * Stores all checklists in one JSON file. Writes go through a temp file and a
+ * rename so a crash never leaves a half-written file behind. Operations are
+ * queued so concurrent requests in this process can't interleave.
+ */
+export class FileChecklistStore extends MemoryChecklistStore {
+  private loaded: Promise<void> | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private filePath: string) {
+    super()
+  }
+
+  private load() {
+    this.loaded ??= fs.readFile(this.filePath, "utf8").then(
+      text => {
+        const parsed = JSON.parse(text)
+        const entries: StoredChecklist[] = Array.isArray(parsed?.checklists) ? parsed.checklists : []
+        entries.forEach(entry => this.checklists.set(entry.id, entry))
+      },
+      (err: NodeJS.ErrnoException) => {
+        if (err.code !== "ENOENT") throw err
+      }
+    )
+    return this.loaded
+  }
+
+  private run<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(() => this.load()).then(operation)
+    this.queue = next.catch(() => {})
+    return next
+  }
+
+  list() {
+    return this.run(() => super.list())
+  }
+
+  get(id: string) {
+    return this.run(() => super.get(id))
+  }
+
+  create(checklist: Checklist) {
+    return this.run(() => super.create(checklist))
+  }
+
+  update(checklist: Checklist, expectedRevision: number) {
+    return this.run(() => super.update(checklist, expectedRevision))
+  }
+
+  delete(id: string, expectedRevision?: number) {
+    return this.run(() => super.delete(id, expectedRevision))
+  }
+
+  protected async persist() {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.${process.pid}.tmp`
+    const payload = JSON.stringify({ checklists: Array.from(this.checklists.values()) }, null, 2)
+    await fs.writeFile(tempPath, payload, "utf8")
+    await fs.rename(tempPath, this.filePath)
+  }
+}
+
+const globalForStore = globalThis as typeof globalThis & { checklistStore?: ChecklistStore }
+
+/**
+ * Returns the configured store. CHECKLIST_STORE selects the adapter ("file" by
+ * default, or "memory"); CHECKLIST_DATA_FILE overrides the file location.
+ * Cached on globalThis so dev-mode reloads don't lose the in-memory state.
+ */
+export function getChecklistStore(): ChecklistStore {
+  if (!globalForStore.checklistStore) {
+    globalForStore.checklistStore = process.env.CHECKLIST_STORE === "memory"
+      ? new MemoryChecklistStore()
+      : new FileChecklistStore(process.env.CHECKLIST_DATA_FILE ?? path.join(process.cwd(), ".data", "checklists.json"))
+  }
+  return globalForStore.checklistStore
+}
@@ -0,0 +1,193 @@
+import { Checklist } from "@/types/checklist"
+import { applyOps, diffChecklist, Presence, sanitizeCollabOps } from "@/lib/collaboration"
+import { ChecklistStore, getChecklistStore, WriteResult } from "@/lib/server/checklist-store"
+
+// Saving on every keystroke would rewrite the data file constantly
+const SAVE_DELAY_MS = 1000
+// A session someone joined but never connected to is dropped after this
+const UNUSED_ROOM_MS = 30000
+
+type Send = (event: string, data: unknown) => void
+
+type Room = {
+  checklist: Checklist
+  base: Checklist | null  // the store's copy as of the last save or load; edits made outside the session are diffed against it
+  seq: number  // number of the last batch applied
+  connections: Map<string, { presence: Presence; send: Send }>
+  lastBatch: Map<string, number>  // per browser, so a retried post isn't applied twice
+  saveTimer?: ReturnType<typeof setTimeout>
+  saving: Promise<void>
+}
+
+export type ApplyResult =
+  | { ok: true; seq: number }
+  | { ok: false; status: 400 | 404; error: string }
+
+/**
+ * Live sessions, one per checklist being edited together. Each holds the
+ * authoritative copy; batches of operations are numbered and broadcast in the
+ * order they arrive, and the copy is saved to the checklist store shortly
+ * after. Lives in memory, so everyone in a session must reach the same server
+ * process.
+ */
+export class CollaborationHub {
+  private rooms = new Map<string, Room>()
+
+  constructor(private store: ChecklistStore) {}
+
+  has(id: string): boolean {
+    return this.rooms.has(id)
+  }
+
+  /**
+   * Opens a session for the checklist unless one is running. The joining
+   * browser's copy starts it, since it may hold edits not yet synced, unless
+   * the server has saved a newer revision than that copy has seen. True
+   * when the session started from the seed, so the browser's edits are in it.
+   */
+  async join(seed: Checklist): Promise<boolean> {
+    if (this.rooms.has(seed.id)) return false
+    const stored = await this.store.get(seed.id)
+    if (this.rooms.has(seed.id)) return false
+
+    const useStored = stored && (seed.revision === undefined || stored.revision > seed.revision)
+    const { syncedAt: _syncedAt, ...fromSeed } = seed
+    const room: Room = {
+      checklist: useStored ? stored : { ...fromSeed, revision: stored?.revision },
+      base: stored,
+      seq: 0,
+      connections: new Map(),
+      lastBatch: new Map(),
+      saving: Promise.resolve()
+    }
+    this.rooms.set(seed.id, room)
+    if (!useStored) this.scheduleSave(room)
+    setTimeout(() => this.closeIfEmpty(seed.id, room), UNUSED_ROOM_MS)
+    return !useStored
+  }
+
+  /**
+   * Adds a browser's event stream to the session and sends it the current
+   * copy. A second stream from the same browser replaces the first. Returns
+   * the function to call when the stream closes, or null without a session.
+   */
+  connect(id: string, presence: Presence, send: Send): (() => void) | null {
+    const room = this.rooms.get(id)
+    if (!room) return null
+    const connection = { presence, send }
+    room.connections.set(presence.clientId, connection)
+    send("snapshot", {
+      seq: room.seq,
+      checklist: room.checklist,
+      lastBatch: room.lastBatch.get(presence.clientId) ?? 0
+    })
+    this.broadcastPresence(room)
+
+    return () => {
+      if (room.connections.get(presence.clientId) !== connection) return
+      room.connections.delete(presence.clientId)
+      this.broadcastPresence(room)
+      this.closeIfEmpty(id, room)
+    }
+  }
+
+  apply(id: string, clientId: string, batch: number, rawOps: unknown): ApplyResult {
+    const room = this.rooms.get(id)
+    if (!room) return { ok: false, status: 404, error: "No live session for this checklist" }
+    if (batch <= (room.lastBatch.get(clientId) ?? 0)) return { ok: true, seq: room.seq }
+
+    const ops = sanitizeCollabOps(rawOps, room.checklist)
+    if (!ops) return { ok: false, status: 400, error: "Invalid operations" }
+
+    const at = new Date().toISOString()
+    room.checklist = applyOps(room.checklist, ops, at)
+    room.seq++
+    room.lastBatch.set(clientId, batch)
+    this.broadcast(room, "op", { seq: room.seq, clientId, batch, ops, at })
+    this.scheduleSave(room)
+    return { ok: true, seq: room.seq }
+  }
+
+  setPresence(id: string, presence: Presence): boolean {
+    const room = this.rooms.get(id)
+    const connection = room?.connections.get(presence.clientId)
+    if (!room || !connection) return false
+    connection.presence = presence
+    this.broadcastPresence(room)
+    return true
+  }
+
+  private broadcast(room: Room, event: string, data: unknown) {
+    room.connections.forEach(connection => connection.send(event, data))
+  }
+
+  private broadcastPresence(room: Room) {
+    this.broadcast(room, "presence", { peers: Array.from(room.connections.values()).map(c => c.presence) })
+  }
+
+  private closeIfEmpty(id: string, room: Room) {
+    if (room.connections.size > 0 || this.rooms.get(id) !== room) return
+    this.rooms.delete(id)
+    if (room.saveTimer) {
+      clearTimeout(room.saveTimer)
+      room.saveTimer = undefined
+      room.saving = room.saving.then(() => this.save(room))
+    }
+  }
+
+  private scheduleSave(room: Room) {
+    if (room.saveTimer) clearTimeout(room.saveTimer)
+    room.saveTimer = setTimeout(() => {
+      room.saveTimer = undefined
+      room.saving = room.saving.then(() => this.save(room))
+    }, SAVE_DELAY_MS)
+  }
+
+  private async save(room: Room) {
+    const checklist = room.checklist
+    try {
+      let result: WriteResult = checklist.revision === undefined
+        ? await this.store.create(checklist)
+        : await this.store.update(checklist, checklist.revision)
+      if (!result.ok && result.reason === "not-found") result = await this.store.create(checklist)
+      if (!result.ok && result.reason === "conflict") {
+        this.foldIn(room, result.current)
+        return
+      }
+      if (!result.ok) return
+
+      room.base = result.checklist
+      const revision = result.checklist.revision
+      room.checklist = { ...room.checklist, revision }
+      this.broadcast(room, "saved", { revision, updatedAt: checklist.updatedAt })
+    } catch {
+      // The next edit saves again; until then everyone in the session is told
+      this.broadcast(room, "save-failed", {})
+    }
+  }
+
+  /**
+   * Someone saved the checklist outside the session, say from a browser that
+   * isn't connected. What they changed since the session's last save is
+   * applied as one more batch for everyone, then saved on top of their revision.
+   */
+  private foldIn(room: Room, current: Checklist) {
+    const ops = room.base ? diffChecklist(room.base, current) : []
+    const at = new Date().toISOString()
+    room.checklist = { ...applyOps(room.checklist, ops, at), revision: current.revision }
+    room.base = current
+    if (ops.length > 0) {
+      room.seq++
+      this.broadcast(room, "op", { seq: room.seq, clientId: "", batch: 0, ops, at })
+    }
+    this.scheduleSave(room)
+  }
+}
+
+const globalForHub = globalThis as typeof globalThis & { collaborationHub?: CollaborationHub }
+
+/** The hub for this process, cached on globalThis like the checklist store. */
+export function getCollaborationHub(): CollaborationHub {
+  globalForHub.collaborationHub ??= new CollaborationHub(getChecklistStore())
+  return globalForHub.collaborationHub
+}
@@ -0,0 +1,97 @@
+import { ChecklistDocument, parseChecklistDocument } from "@/lib/checklist-document"
+import { repairDependencyGraph } from "@/lib/graph"
+
+// Share links carry a whole checklist document in the URL fragment, deflated
+// and base64url-encoded: `/#share=<payload>`. Fragments never reach the
+// server, so nothing is stored anywhere but the link itself.
+
+const FRAGMENT_PREFIX = "#share="
+
+// Chat apps and email clients start cutting links somewhere past this length
+export const SHARE_LINK_WARN_LENGTH = 8000
+// Beyond this, browsers themselves may refuse the URL
+export const SHARE_LINK_MAX_LENGTH = 2_000_000
+// A decompressed payload larger than this isn't a checklist anyone exported
+const MAX_DOCUMENT_BYTES = 10_000_000
+const TOO_LARGE = "This share link is too large to open"
+
+async function pipeBytes(bytes: BlobPart, transform: CompressionStream | DecompressionStream, limit = Infinity): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    length += value.length
+    if (length > limit) {
+      await reader.cancel()
+      throw new Error(TOO_LARGE)
+    }
+    chunks.push(value)
+  }
+  const joined = new Uint8Array(length)
+  let offset = 0
+  chunks.forEach(chunk => {
+    joined.set(chunk, offset)
+    offset += chunk.length
+  })
+  return joined
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string) {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+/** A link to `baseUrl` that opens the document as a shared preview. */
+export async function createShareLink(baseUrl: string, document: ChecklistDocument): Promise<string> {
+  const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(document)), new CompressionStream("deflate-raw"))
+  return `${baseUrl.split("#")[0]}${FRAGMENT_PREFIX}${toBase64Url(compressed)}`
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX)
+}
+
+/**
+ * Reads a shared document from a URL fragment, with the same validation as a
+ * JSON import. Dependency cycles and dangling references are repaired rather
+ * than refused, since the sender can't be asked to fix them; every repair is
+ * listed in `messages`.
+ */
+export async function readShareFragment(hash: string): Promise<{ document: ChecklistDocument; messages: string[] }> {
+  if (!isShareFragment(hash)) throw new Error("Not a share link")
+  let raw: unknown
+  try {
+    const compressed = fromBase64Url(decodeURIComponent(hash.slice(FRAGMENT_PREFIX.length)))
+    const json = await pipeBytes(compressed, new DecompressionStream("deflate-raw"), MAX_DOCUMENT_BYTES)
+    raw = JSON.parse(new TextDecoder().decode(json))
+  } catch (err: any) {
+    throw new Error(err?.message === TOO_LARGE ? TOO_LARGE : "This share link is damaged or incomplete")
+  }
+  const { document, messages } = parseChecklistDocument(raw)
+  if (document.items.length === 0) throw new Error("This share link has no valid steps")
+  const repaired = repairDependencyGraph(document.items)
+  return { document: { ...document, items: repaired.items }, messages: [...messages, ...repaired.messages] }
+}
+
+/** Null when the link is short enough to paste anywhere. */
+export function shareLinkSizeWarning(length: number): string | null {
+  const size = length >= 10_000 ? `${Math.round(length / 1000)}K` : length.toLocaleString("en-US")
+  if (length > SHARE_LINK_MAX_LENGTH) {
+    return `This checklist makes a ${size}-character link, too long for browsers to open. Export it as a file instead.`
+  }
+  if (length > SHARE_LINK_WARN_LENGTH) {
+    return `This link is ${size} characters long. Some chat and email apps cut off links past ${SHARE_LINK_WARN_LENGTH.toLocaleString("en-US")} characters, so the other person may get an incomplete link. Exporting a file is safer.`
+  }
+  return null
+}
@@ -0,0 +1,53 @@
+// Server-sent events over fetch. EventSource only does GET, and AI routes
+// take a POST body, so both the routes and the browser read streams here.
+
+export type ServerSentEvent = {
+  event: string  // "message" when the stream didn't name it, as in EventSource
+  data: string
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = "message"
+  const data: string[] = []
+  block.split(/\r?\n/).forEach(line => {
+    if (!line || line.startsWith(":")) return
+    const colon = line.indexOf(":")
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "")
+    if (field === "event") event = value
+    else if (field === "data") data.push(value)
+  })
+  return data.length > 0 ? { event, data: data.join("\n") } : null
+}
+
+/**
+ * Yields events as they arrive. Stopping early, or an aborted fetch,
+ * cancels the body so the connection is closed.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+      let boundary = buffer.search(/\r?\n\r?\n/)
+      while (boundary !== -1) {
+        const event = parseEventBlock(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "")
+        if (event) yield event
+        boundary = buffer.search(/\r?\n\r?\n/)
+      }
+      if (done) break
+    }
+    const last = parseEventBlock(buffer)
+    if (last) yield last
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+}
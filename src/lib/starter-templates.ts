@@ -0,0 +1,92 @@
+import { ChecklistItem, TemplateVariable } from "@/types/checklist"
+
+type StarterStep = {
+  key: string
+  title: string
+  description?: string
+  after?: string[]  // keys of the steps it depends on
+  parent?: string
+}
+
+export type StarterTemplate = {
+  id: string
+  name: string
+  summary: string
+  variables: TemplateVariable[]
+  steps: StarterStep[]
+}
+
+// Built-in templates offered on the empty builder. Keys are only used to wire
+// up dependencies here; each use gets fresh step ids.
+export const starterTemplates: StarterTemplate[] = [
+  {
+    id: "erp-onboarding",
+    name: "ERP client onboarding",
+    summary: "From kickoff to go-live for one client and module",
+    variables: [
+      { name: "clientName", label: "Client name" },
+      { name: "erpModule", label: "ERP module" },
+      { name: "goLiveDate", label: "Go-live date" }
+    ],
+    steps: [
+      { key: "kickoff", title: "Kickoff call with {{clientName}}", description: "Confirm scope for {{erpModule}} and the {{goLiveDate}} go-live" },
+      { key: "company", title: "Create {{clientName}} company", after: ["kickoff"] },
+      { key: "config", title: "Configure {{erpModule}}", after: ["company"] },
+      { key: "data", title: "Migrate master data", after: ["company"] },
+      { key: "customers", title: "Import customers", parent: "data" },
+      { key: "items", title: "Import items", parent: "data" },
+      { key: "training", title: "Train {{clientName}} users on {{erpModule}}", after: ["config"] },
+      { key: "uat", title: "User acceptance testing", after: ["config", "data"] },
+      { key: "golive", title: "Go live on {{goLiveDate}}", after: ["training", "uat"] }
+    ]
+  },
+  {
+    id: "employee-onboarding",
+    name: "New employee onboarding",
+    summary: "Accounts, equipment and a first week plan",
+    variables: [
+      { name: "employeeName", label: "Employee name" },
+      { name: "startDate", label: "Start date" },
+      { name: "manager", label: "Manager" }
+    ],
+    steps: [
+      { key: "offer", title: "Confirm {{employeeName}}'s start on {{startDate}}" },
+      { key: "accounts", title: "Create email and tool accounts", after: ["offer"] },
+      { key: "laptop", title: "Order and set up a laptop", after: ["offer"] },
+      { key: "buddy", title: "Assign an onboarding buddy", description: "Agreed with {{manager}}", after: ["offer"] },
+      { key: "welcome", title: "Welcome meeting with {{manager}}", after: ["accounts", "laptop"] },
+      { key: "plan", title: "Share the first week plan with {{employeeName}}", after: ["welcome", "buddy"] }
+    ]
+  },
+  {
+    id: "release",
+    name: "Software release",
+    summary: "Freeze, test and ship a version",
+    variables: [
+      { name: "version", label: "Version" },
+      { name: "releaseDate", label: "Release date" }
+    ],
+    steps: [
+      { key: "freeze", title: "Code freeze for {{version}}" },
+      { key: "notes", title: "Write release notes for {{version}}", after: ["freeze"] },
+      { key: "qa", title: "Run the regression suite", after: ["freeze"] },
+      { key: "staging", title: "Deploy {{version}} to staging", after: ["qa"] },
+      { key: "signoff", title: "Get sign-off", after: ["staging", "notes"] },
+      { key: "ship", title: "Release {{version}} on {{releaseDate}}", after: ["signoff"] }
+    ]
+  }
+]
+
+export function instantiateStarterTemplate(template: StarterTemplate): { items: ChecklistItem[]; variables: TemplateVariable[] } {
+  const ids = new Map(template.steps.map(step => [step.key, crypto.randomUUID()]))
+  const createdAt = new Date().toISOString()
+  const items = template.steps.map(step => ({
+    id: ids.get(step.key)!,
+    title: step.title,
+    description: step.description ?? "",
+    parentId: step.parent && ids.get(step.parent),
+    dependsOn: (step.after ?? []).map(key => ids.get(key)!),
+    createdAt
+  }))
+  return { items, variables: template.variables.map(v => ({ ...v })) }
+}
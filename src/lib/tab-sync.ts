@@ -0,0 +1,200 @@
+import { Checklist, ChecklistItem, ChecklistLibrary, ChecklistRun, RunnerState } from "@/types/checklist"
+import { repairDependencyGraph } from "@/lib/graph"
+import { MergeField, mergeFieldLabels } from "@/lib/import-merge"
+import { repairParentLinks } from "@/lib/tree"
+
+// Three-way merge of the library between browser tabs. "Base" is the library
+// this tab last wrote to or read from localStorage, "local" is what it holds
+// now and "remote" is what another tab just saved. Changes made on only one
+// side are kept; when both tabs changed the same field, the checklist edited
+// most recently wins that field and the clash is reported.
+
+type Side = "local" | "remote"
+
+// JSON with sorted keys, so objects built in a different key order still compare equal
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+      : v
+  )
+}
+
+export function sameContent(a: unknown, b: unknown): boolean {
+  return a === b || stableJson(a) === stableJson(b)
+}
+
+/**
+ * Everything tabs share, for telling whether a save changes anything. The
+ * active checklist is left out: each tab shows its own, and writing it back
+ * would only bounce between tabs.
+ */
+export function libraryContent(library: ChecklistLibrary): string {
+  return stableJson({ checklists: library.checklists, pendingDeletes: library.pendingDeletes?.length ? library.pendingDeletes : undefined })
+}
+
+function omit<T extends object, K extends keyof T>(record: T, keys: K[]): Omit<T, K> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key as K))) as Omit<T, K>
+}
+
+function mergeValue<T>(base: T, local: T, remote: T, newer: Side, onClash: () => void): T {
+  if (sameContent(local, remote) || sameContent(remote, base)) return local
+  if (sameContent(local, base)) return remote
+  onClash()
+  return newer === "local" ? local : remote
+}
+
+/**
+ * Merges two edited copies of a list of records by id. Order follows whichever
+ * side reordered, with records only the other side added placed after the
+ * record they follow there. A record deleted on one side stays deleted unless
+ * the other side edited it.
+ */
+function mergeRecords<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeOne: (base: T | undefined, local: T, remote: T) => T,
+  onKeptDeleted: (record: T, deletedBy: Side) => void
+): T[] {
+  const baseById = new Map(base.map(r => [r.id, r]))
+  const localById = new Map(local.map(r => [r.id, r]))
+  const remoteById = new Map(remote.map(r => [r.id, r]))
+
+  const keep = (id: string): T | null => {
+    const b = baseById.get(id)
+    const l = localById.get(id)
+    const r = remoteById.get(id)
+    if (l && r) return mergeOne(b, l, r)
+    const only = (l ?? r)!
+    if (!b) return only  // added on one side
+    if (sameContent(only, b)) return null  // deleted on the other side, untouched here
+    onKeptDeleted(only, l ? "remote" : "local")
+    return only
+  }
+
+  const sharedOrder = (records: T[]) => records.map(r => r.id).filter(id => baseById.has(id) && localById.has(id) && remoteById.has(id))
+  const remoteReordered = !sameContent(sharedOrder(remote), sharedOrder(base))
+  const [primary, secondary] = remoteReordered ? [remote, local] : [local, remote]
+  const order = primary.map(r => r.id)
+  secondary.forEach((record, index) => {
+    if (order.includes(record.id)) return
+    const before = secondary.slice(0, index).reverse().find(r => order.includes(r.id))
+    order.splice(before ? order.indexOf(before.id) + 1 : 0, 0, record.id)
+  })
+
+  return order.map(keep).filter((r): r is T => r !== null)
+}
+
+function mergeFields<T extends object>(base: T | undefined, local: T, remote: T, newer: Side, onClash: (field: string) => void): T {
+  const keys = Array.from(new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base ?? {})])) as (keyof T)[]
+  const merged = {} as T
+  keys.forEach(key => {
+    const value = base
+      ? mergeValue(base[key], local[key], remote[key], newer, () => onClash(String(key)))
+      : newer === "local" ? local[key] : remote[key]
+    if (value !== undefined) merged[key] = value
+  })
+  return merged
+}
+
+function mergeRun(base: ChecklistRun | undefined, local: ChecklistRun, remote: ChecklistRun, newer: Side): ChecklistRun {
+  // Checks and unchecks are merged step by step
+  const state: RunnerState = {}
+  new Set([local.state, remote.state, base?.state ?? {}].flatMap(s => Object.keys(s))).forEach(id => {
+    const completion = mergeValue(base?.state[id], local.state[id], remote.state[id], newer, () => {})
+    if (completion) state[id] = completion
+  })
+  // The audit log only grows, so both sides' events are kept
+  const events = [...local.events, ...remote.events.filter(e => !local.events.some(l => l.id === e.id))]
+    .sort((a, b) => a.at.localeCompare(b.at))
+  const fields = mergeFields(base && omit(base, ["state", "events"]), omit(local, ["state", "events"]), omit(remote, ["state", "events"]), newer, () => {})
+  return { ...fields, state, events }
+}
+
+function mergeChecklist(base: Checklist | undefined, local: Checklist, remote: Checklist, conflicts: string[]): Checklist {
+  if (base && sameContent(local, base)) return remote
+  if ((base && sameContent(remote, base)) || sameContent(local, remote)) return local
+
+  const newer: Side = local.updatedAt > remote.updatedAt ? "local" : "remote"
+  const itemTitle = (item: ChecklistItem) => `"${item.title || "Untitled"}"`
+
+  let itemsTouched = false
+  const items = mergeRecords(
+    base?.items ?? [],
+    local.items,
+    remote.items,
+    (b, l, r) => {
+      if (!sameContent(l, r)) itemsTouched = true
+      const clashes: string[] = []
+      const merged = mergeFields(b, l, r, newer, field => clashes.push(mergeFieldLabels[field as MergeField]?.toLowerCase() ?? field))
+      clashes.forEach(label => conflicts.push(`${itemTitle(merged)}: both tabs changed the ${label}, the newer edit was kept`))
+      return merged
+    },
+    (item, deletedBy) => {
+      itemsTouched = true
+      conflicts.push(`${itemTitle(item)} was deleted in ${deletedBy === "local" ? "this tab" : "another tab"} but edited in the other, so it was kept`)
+    }
+  )
+  // Each side's edits were valid alone but may not be together, e.g. a dependency on a step the other deleted
+  const repaired = itemsTouched ? repairDependencyGraph(repairParentLinks(items).items).items : items
+
+  const runs = mergeRecords(base?.runs ?? [], local.runs, remote.runs, (b, l, r) => mergeRun(b, l, r, newer), () => {})
+
+  const rest = mergeFields(base && omit(base, ["items", "runs"]), omit(local, ["items", "runs"]), omit(remote, ["items", "runs"]), newer, field => {
+    if (field === "name" || field === "variables") conflicts.push(`"${local.name}": both tabs changed the ${field}, the newer edit was kept`)
+  })
+
+  // Server bookkeeping only moves forward; whichever tab synced last knows the latest revision
+  const revisions = [local.revision, remote.revision].filter((r): r is number => r !== undefined)
+  return {
+    ...rest,
+    items: repaired,
+    runs,
+    activeRunId: runs.some(run => run.id === rest.activeRunId) ? rest.activeRunId : runs[0]?.id ?? rest.activeRunId,
+    updatedAt: newer === "local" ? local.updatedAt : remote.updatedAt,
+    revision: revisions.length > 0 ? Math.max(...revisions) : undefined,
+    syncedAt: [local.syncedAt, remote.syncedAt].filter(Boolean).sort().pop()
+  }
+}
+
+/**
+ * Folds another tab's save into this tab's library. `changed` lists the
+ * checklists that now differ from what this tab had; `conflicts` describes
+ * fields both tabs edited, for the notice.
+ */
+export function mergeLibraries(
+  base: ChecklistLibrary,
+  local: ChecklistLibrary,
+  remote: ChecklistLibrary
+): { library: ChecklistLibrary; changed: string[]; conflicts: string[] } {
+  const conflicts: string[] = []
+  const checklists = mergeRecords(
+    base.checklists,
+    local.checklists,
+    remote.checklists,
+    (b, l, r) => mergeChecklist(b, l, r, conflicts),
+    (checklist, deletedBy) => conflicts.push(`"${checklist.name}" was deleted in ${deletedBy === "local" ? "this tab" : "another tab"} but edited in the other, so it was kept`)
+  )
+  if (checklists.length === 0) return { library: local, changed: [], conflicts }
+
+  const localById = new Map(local.checklists.map(c => [c.id, c]))
+  const changed = checklists.filter(c => !sameContent(c, localById.get(c.id))).map(c => c.id)
+  local.checklists.forEach(c => {
+    if (!checklists.some(merged => merged.id === c.id)) changed.push(c.id)
+  })
+
+  // A delete one tab already sent to the server drops out of the list, so it isn't sent twice
+  const pendingDeletes = mergeRecords(base.pendingDeletes ?? [], local.pendingDeletes ?? [], remote.pendingDeletes ?? [], (_b, l) => l, () => {})
+
+  return {
+    library: {
+      // Each tab keeps looking at its own checklist
+      activeId: checklists.some(c => c.id === local.activeId) ? local.activeId : (checklists.find(c => !c.archived) ?? checklists[0]).id,
+      checklists,
+      ...(pendingDeletes.length > 0 ? { pendingDeletes } : {})
+    },
+    changed,
+    conflicts
+  }
+}
@@ -0,0 +1,74 @@
+import { ChecklistItem, ChecklistRun, TemplateVariable } from "@/types/checklist"
+
+// Template variables: `{{clientName}}` in a step's title or description is
+// filled in from the run's values when the runner shows it. The builder always
+// shows the placeholders.
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+export function isVariableName(name: string): boolean {
+  return VARIABLE_NAME.test(name)
+}
+
+/** "goLiveDate" -> "Go live date", for variables declared without a label. */
+export function variableLabel(variable: TemplateVariable): string {
+  if (variable.label?.trim()) return variable.label.trim()
+  const words = variable.name.replace(/_/g, " ").replace(/([a-z0-9])([A-Z])/g, "$1 $2").trim().toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/** Names used in the steps' titles and descriptions, in order of first use. */
+export function referencedVariables(items: ChecklistItem[]): string[] {
+  const names = new Set<string>()
+  items.forEach(item => {
+    for (const text of [item.title, item.description ?? ""]) {
+      for (const match of text.matchAll(PLACEHOLDER)) names.add(match[1])
+    }
+  })
+  return Array.from(names)
+}
+
+/** Replaces placeholders that have a value; the rest stay as `{{name}}`. */
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => values[name]?.trim() || placeholder)
+}
+
+export function fillItem(item: ChecklistItem, values: Record<string, string>): ChecklistItem {
+  return {
+    ...item,
+    title: fillTemplate(item.title, values),
+    description: item.description && fillTemplate(item.description, values)
+  }
+}
+
+/** True when the run hasn't been through its form yet and there is something to ask. */
+export function needsValues(variables: TemplateVariable[] | undefined, run: ChecklistRun | undefined): boolean {
+  return !!run && !run.values && (variables?.length ?? 0) > 0
+}
+
+export function sanitizeTemplateVariables(raw: unknown): TemplateVariable[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+  const seen = new Set<string>()
+  const variables = raw
+    .filter(v => v && typeof v === "object" && typeof v.name === "string" && isVariableName(v.name.trim()))
+    .map(v => ({
+      name: v.name.trim() as string,
+      label: typeof v.label === "string" && v.label.trim() ? v.label.trim() : undefined
+    }))
+    .filter(v => !seen.has(v.name) && seen.add(v.name))
+  return variables.length > 0 ? variables : undefined
+}
+
+export function sanitizeVariableValues(raw: unknown): Record<string, string> | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined
+  return Object.fromEntries(
+    Object.entries(raw).filter(([name, value]) => isVariableName(name) && typeof value === "string")
+  )
+}
+
+export function mergeVariables(current: TemplateVariable[] = [], incoming: TemplateVariable[] = []): TemplateVariable[] | undefined {
+  const names = new Set(current.map(v => v.name))
+  const merged = [...current, ...incoming.filter(v => !names.has(v.name))]
+  return merged.length > 0 ? merged : undefined
+}
@@ -0,0 +1,138 @@
+import { ChecklistItem } from "@/types/checklist"
+
+// Items stay a flat array with `parentId` links. Siblings keep their relative
+// array order, so everything that walks `items` (graph, exports, sync) keeps
+// working and only the display needs to know about nesting.
+
+export type TreeRow = {
+  item: ChecklistItem
+  depth: number
+  childCount: number
+}
+
+export function hasChildren(items: ChecklistItem[], id: string): boolean {
+  return items.some(i => i.parentId === id)
+}
+
+export function ancestorIds(items: ChecklistItem[], id: string): string[] {
+  const byId = new Map(items.map(i => [i.id, i]))
+  const ancestors: string[] = []
+  let parentId = byId.get(id)?.parentId
+  while (parentId && byId.has(parentId) && !ancestors.includes(parentId)) {
+    ancestors.push(parentId)
+    parentId = byId.get(parentId)!.parentId
+  }
+  return ancestors
+}
+
+/** True when one step is an ancestor of the other. */
+export function areNested(items: ChecklistItem[], a: string, b: string): boolean {
+  return ancestorIds(items, a).includes(b) || ancestorIds(items, b).includes(a)
+}
+
+export function descendantIds(items: ChecklistItem[], id: string): string[] {
+  const result: string[] = []
+  const stack = [id]
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    items.forEach(i => {
+      if (i.parentId === current && !result.includes(i.id)) {
+        result.push(i.id)
+        stack.push(i.id)
+      }
+    })
+  }
+  return result
+}
+
+/**
+ * Depth-first display order. Descendants of ids in `collapsed` are left out;
+ * items whose parent is missing are shown at the top level.
+ */
+export function flattenTree(items: ChecklistItem[], collapsed: Set<string> = new Set()): TreeRow[] {
+  const ids = new Set(items.map(i => i.id))
+  const childrenOf = new Map<string | undefined, ChecklistItem[]>()
+  items.forEach(item => {
+    const parent = item.parentId && ids.has(item.parentId) ? item.parentId : undefined
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), item])
+  })
+
+  const rows: TreeRow[] = []
+  const visit = (parent: string | undefined, depth: number) => {
+    childrenOf.get(parent)?.forEach(item => {
+      const childCount = childrenOf.get(item.id)?.length ?? 0
+      rows.push({ item, depth, childCount })
+      if (!collapsed.has(item.id)) visit(item.id, depth + 1)
+    })
+  }
+  visit(undefined, 0)
+  return rows
+}
+
+// Re-inserts `id` right after `afterId`, or at the very start when it's null
+function moveInArray(items: ChecklistItem[], id: string, update: Partial<ChecklistItem>, afterId: string | null): ChecklistItem[] {
+  const moving = items.find(i => i.id === id)!
+  const rest = items.filter(i => i.id !== id)
+  const index = afterId ? rest.findIndex(i => i.id === afterId) + 1 : 0
+  return [...rest.slice(0, index), { ...moving, ...update }, ...rest.slice(index)]
+}
+
+/** Makes the step the last child of the sibling above it. Returns null at the top of a level. */
+export function indentItem(items: ChecklistItem[], id: string): ChecklistItem[] | null {
+  const item = items.find(i => i.id === id)
+  if (!item) return null
+  const siblings = items.filter(i => i.parentId === item.parentId)
+  const previous = siblings[siblings.indexOf(item) - 1]
+  if (!previous) return null
+  const lastChild = items.filter(i => i.parentId === previous.id).pop()
+  return moveInArray(items, id, { parentId: previous.id }, (lastChild ?? previous).id)
+}
+
+/** Moves the step up a level, directly after its current parent. Returns null at the top level. */
+export function outdentItem(items: ChecklistItem[], id: string): ChecklistItem[] | null {
+  const item = items.find(i => i.id === id)
+  const parent = item?.parentId ? items.find(i => i.id === item.parentId) : undefined
+  if (!parent) return null
+  return moveInArray(items, id, { parentId: parent.parentId }, parent.id)
+}
+
+/**
+ * Drops `activeId` next to `overId`, adopting its parent, so dragging onto a
+ * step in another group moves it into that group. Returns null when the drop
+ * would put a step inside its own subtree.
+ */
+export function moveItem(items: ChecklistItem[], activeId: string, overId: string, placeAfter: boolean): ChecklistItem[] | null {
+  const over = items.find(i => i.id === overId)
+  if (!over || activeId === overId || descendantIds(items, activeId).includes(overId)) return null
+  const rest = items.filter(i => i.id !== activeId)
+  const overIndex = rest.indexOf(over)
+  const previous = placeAfter ? over.id : rest[overIndex - 1]?.id ?? null
+  return moveInArray(items, activeId, { parentId: over.parentId }, previous)
+}
+
+/** Clears parent links that point at missing steps or loop back on themselves. */
+export function repairParentLinks(items: ChecklistItem[]): { items: ChecklistItem[]; messages: string[] } {
+  const ids = new Set(items.map(i => i.id))
+  const messages: string[] = []
+  const repaired = items.map(item => {
+    if (!item.parentId) return item
+    if (!ids.has(item.parentId)) {
+      messages.push(`"${item.title}" had a parent that does not exist; moved to the top level`)
+      return { ...item, parentId: undefined }
+    }
+    return item
+  })
+
+  // Break parent loops one link at a time, keeping the earliest links
+  const fixed: ChecklistItem[] = []
+  repaired.forEach(item => {
+    const candidate = [...fixed, ...repaired.slice(fixed.length)]
+    if (item.parentId && ancestorIds(candidate, item.parentId).concat(item.parentId).includes(item.id)) {
+      messages.push(`"${item.title}" was nested inside itself; moved to the top level`)
+      fixed.push({ ...item, parentId: undefined })
+    } else {
+      fixed.push(item)
+    }
+  })
+  return { items: fixed, messages }
+}
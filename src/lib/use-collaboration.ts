@@ -0,0 +1,239 @@
+import { Dispatch, SetStateAction, useEffect, useRef, useState } from "react"
+import { Checklist, ChecklistLibrary } from "@/types/checklist"
+import { applyOps, CollabOp, diffChecklist, Presence } from "@/lib/collaboration"
+import { readServerSentEvents } from "@/lib/sse"
+import { conflictCopy, isDirty } from "@/lib/library"
+import { sameContent } from "@/lib/tab-sync"
+
+export type CollaborationStatus = "connecting" | "live" | "offline"
+
+const RETRY_DELAY_MS = 3000
+
+type Batch = { batch: number; ops: CollabOp[] }
+
+type Session = {
+  checklistId: string
+  confirmed: Checklist | null  // the server's copy: every batch it has broadcast so far
+  pending: Batch[]  // this browser's edits the server hasn't broadcast back yet
+  posted: number  // highest batch number the server accepted
+  nextBatch: number
+  shown: Checklist | null  // what this hook last put in the library, to tell local edits apart
+  posting: boolean
+  saveFailed: boolean  // told the user already, so each failed save in a row doesn't repeat it
+  unsynced: Checklist | null  // offline edits a session that was already running didn't start from
+}
+
+// Bookkeeping each browser keeps for itself; it never travels in operations
+function sharedContent({ activeRunId: _a, archived: _b, updatedAt: _c, revision: _d, syncedAt: _e, ...content }: Checklist) {
+  return content
+}
+
+/**
+ * Joins the live session for the checklist on screen, so everyone who has it
+ * open sees each other's builder edits and runner checks as they happen.
+ * Local edits are diffed into operations and posted in order; what the
+ * server broadcasts is applied on top of the last confirmed copy, with this
+ * browser's unconfirmed edits replayed over it. `peers` lists everyone else
+ * in the session and the step they're on. `onNotice` hears when the session
+ * couldn't save to the server, and `onRemoteChange` when someone else's edits
+ * changed the checklist on screen.
+ */
+export function useCollaboration(
+  library: ChecklistLibrary | null,
+  setLibrary: Dispatch<SetStateAction<ChecklistLibrary | null>>,
+  presence: Omit<Presence, "clientId">,
+  onNotice: (message: string) => void,
+  onRemoteChange: (checklistIds: string[]) => void
+): { status: CollaborationStatus | null; peers: Presence[] } {
+  const [status, setStatus] = useState<CollaborationStatus | null>(null)
+  const [peers, setPeers] = useState<Presence[]>([])
+  // One id per tab, so two tabs of the same browser show up as two people
+  const clientId = useRef("")
+  const session = useRef<Session | null>(null)
+  const libraryRef = useRef(library)
+  const presenceRef = useRef(presence)
+  const onNoticeRef = useRef(onNotice)
+  const onRemoteChangeRef = useRef(onRemoteChange)
+
+  libraryRef.current = library
+  presenceRef.current = presence
+  onNoticeRef.current = onNotice
+  onRemoteChangeRef.current = onRemoteChange
+
+  // Checklists join once the server has them, so a fresh browser's empty placeholder doesn't open a session
+  const active = library?.checklists.find(c => c.id === library.activeId)
+  const checklistId = active?.revision !== undefined ? active.id : null
+
+  // Puts the confirmed copy plus pending edits on screen
+  const show = (current: Session) => {
+    if (!current.confirmed) return
+    const local = libraryRef.current?.checklists.find(c => c.id === current.checklistId)
+    if (!local) return
+    const display = applyOps(current.confirmed, current.pending.flatMap(b => b.ops), local.updatedAt)
+    if (sameContent(sharedContent(display), sharedContent(local))) {
+      current.shown = local
+      return
+    }
+    const next: Checklist = {
+      ...display,
+      activeRunId: display.runs.some(r => r.id === local.activeRunId) ? local.activeRunId : display.runs[0]?.id ?? local.activeRunId,
+      archived: local.archived,
+      revision: local.revision,
+      syncedAt: local.syncedAt
+    }
+    current.shown = next
+    libraryRef.current = libraryRef.current && replaceChecklist(libraryRef.current, next)
+    // An edit made since the last render is replayed on top, and the effect below sends it
+    setLibrary(prev => {
+      const latest = prev?.checklists.find(c => c.id === local.id)
+      if (!prev || !latest) return prev
+      return replaceChecklist(prev, latest === local ? next : applyOps(next, diffChecklist(local, latest), latest.updatedAt))
+    })
+    onRemoteChangeRef.current([local.id])
+  }
+
+  // Same as server sync: the session's version wins and the local edits become a copy
+  const keepAsCopy = (local: Checklist, session: Checklist) => {
+    if (sameContent(sharedContent(local), sharedContent(session))) return
+    setLibrary(prev => {
+      const copy = prev && conflictCopy(local, prev.checklists.map(c => c.name))
+      if (!prev || !copy || prev.checklists.some(c => c.id === copy.id)) return prev
+      return { ...prev, checklists: [...prev.checklists, copy] }
+    })
+    onNoticeRef.current(`⚠️ "${local.name}" was changed elsewhere. Your edits were kept as a copy.`)
+  }
+
+  const post = (id: string, body: object) =>
+    fetch(`/api/collab/${encodeURIComponent(id)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ clientId: clientId.current, ...body })
+    })
+
+  // Sends unsent edits one request at a time, so the server gets them in order
+  const flush = async (current: Session) => {
+    if (current.posting) return
+    current.posting = true
+    try {
+      while (session.current === current) {
+        const unsent = current.pending.filter(b => b.batch > current.posted)
+        if (unsent.length === 0) break
+        const batch = unsent[unsent.length - 1].batch
+        const res = await post(current.checklistId, { kind: "ops", batch, ops: unsent.flatMap(b => b.ops) })
+        // Anything else waits for the reconnect, which resends from the server's count
+        if (!res.ok) break
+        current.posted = Math.max(current.posted, batch)
+      }
+    } catch {
+      // Offline; retried after reconnecting
+    } finally {
+      current.posting = false
+    }
+  }
+
+  useEffect(() => {
+    if (!checklistId) return
+    clientId.current ||= crypto.randomUUID()
+    const current: Session = { checklistId, confirmed: null, pending: [], posted: 0, nextBatch: 1, shown: null, posting: false, saveFailed: false, unsynced: null }
+    session.current = current
+    const abort = new AbortController()
+
+    const handle = (event: string, data: any) => {
+      if (event === "snapshot") {
+        if (current.unsynced) {
+          keepAsCopy(libraryRef.current?.checklists.find(c => c.id === checklistId) ?? current.unsynced, data.checklist)
+        }
+        current.unsynced = null
+        // Kept exactly as the server has it; every later batch applies on top
+        current.confirmed = data.checklist as Checklist
+        current.posted = typeof data.lastBatch === "number" ? data.lastBatch : 0
+        current.pending = current.pending.filter(b => b.batch > current.posted)
+        setStatus("live")
+        show(current)
+        void flush(current)
+      } else if (event === "op" && current.confirmed) {
+        current.confirmed = applyOps(current.confirmed, data.ops, data.at)
+        if (data.clientId === clientId.current) current.pending = current.pending.filter(b => b.batch > data.batch)
+        show(current)
+      } else if (event === "presence") {
+        setPeers((data.peers as Presence[]).filter(p => p.clientId !== clientId.current))
+      } else if (event === "save-failed" && !current.saveFailed) {
+        current.saveFailed = true
+        const name = libraryRef.current?.checklists.find(c => c.id === checklistId)?.name
+        onNoticeRef.current(`⚠️ "${name}" couldn't be saved to the server. Your edits are kept and will be saved later.`)
+      } else if (event === "saved" && current.confirmed) {
+        current.saveFailed = false
+        current.confirmed = { ...current.confirmed, revision: data.revision }
+        // Saved by the session, so server sync has nothing to push once the session ends
+        setLibrary(prev => prev && {
+          ...prev,
+          checklists: prev.checklists.map(c => (c.id === checklistId ? { ...c, revision: data.revision, syncedAt: data.updatedAt } : c))
+        })
+      }
+    }
+
+    const run = async () => {
+      while (!abort.signal.aborted) {
+        try {
+          setStatus(previous => (previous === "offline" ? previous : "connecting"))
+          const local = libraryRef.current?.checklists.find(c => c.id === checklistId)
+          if (!local) return
+          // Rejoining after an outage seeds the session with any edits made meanwhile
+          const seed = current.confirmed ? applyOps(current.confirmed, current.pending.flatMap(b => b.ops), local.updatedAt) : local
+          const joined = await post(checklistId, { kind: "join", checklist: { ...seed, activeRunId: local.activeRunId } })
+          if (!joined.ok) throw new Error("Could not join")
+          // The snapshot would replace edits made before the first join, so they're set aside first
+          const { seeded } = await joined.json()
+          current.unsynced = !current.confirmed && !seeded && isDirty(local) ? local : null
+          const params = new URLSearchParams({ clientId: clientId.current, ...presenceRef.current, stepId: presenceRef.current.stepId ?? "" })
+          const res = await fetch(`/api/collab/${encodeURIComponent(checklistId)}?${params}`, {
+            headers: { Accept: "text/event-stream" },
+            signal: abort.signal
+          })
+          if (!res.ok || !res.body) throw new Error("Could not connect")
+          for await (const { event, data } of readServerSentEvents(res.body)) {
+            handle(event, JSON.parse(data))
+          }
+        } catch {
+          // Retried below
+        }
+        if (abort.signal.aborted) return
+        setStatus("offline")
+        setPeers([])
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS))
+      }
+    }
+    void run()
+
+    return () => {
+      abort.abort()
+      if (session.current === current) session.current = null
+      setStatus(null)
+      setPeers([])
+    }
+  }, [checklistId, setLibrary])
+
+  // Local edits become a batch of operations
+  useEffect(() => {
+    const current = session.current
+    const checklist = library?.checklists.find(c => c.id === current?.checklistId)
+    if (!current?.confirmed || !current.shown || !checklist || checklist === current.shown) return
+    const ops = diffChecklist(current.shown, checklist)
+    current.shown = checklist
+    if (ops.length === 0) return
+    current.pending.push({ batch: current.nextBatch++, ops })
+    void flush(current)
+  }, [library])
+
+  const presenceKey = JSON.stringify(presence)
+  useEffect(() => {
+    if (status !== "live" || !checklistId) return
+    post(checklistId, { kind: "presence", ...JSON.parse(presenceKey) }).catch(() => {})
+  }, [status, checklistId, presenceKey])
+
+  return { status, peers }
+}
+
+function replaceChecklist(library: ChecklistLibrary, checklist: Checklist): ChecklistLibrary {
+  return { ...library, checklists: library.checklists.map(c => (c.id === checklist.id ? checklist : c)) }
+}
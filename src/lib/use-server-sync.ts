@@ -0,0 +1,231 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from "react"
+import { Checklist, ChecklistLibrary } from "@/types/checklist"
+import { conflictCopy, isDirty, sanitizeChecklist } from "@/lib/library"
+
+export type SyncStatus = "idle" | "syncing" | "synced" | "offline"
+
+type ServerChecklist = Checklist & { revision: number }
+
+const SYNC_DELAY_MS = 1000
+const POLL_INTERVAL_MS = 30000
+
+function fromServer(server: ServerChecklist): Checklist {
+  return { ...server, syncedAt: server.updatedAt }
+}
+
+/**
+ * Merges the server's checklists into the local library. Untouched local
+ * copies follow the server; when both sides changed, the server version wins
+ * and the local edits are kept as a "conflicted copy" so nothing is lost.
+ */
+export function reconcileWithServer(
+  library: ChecklistLibrary,
+  remote: ServerChecklist[],
+  liveId: string | null = null
+): { library: ChecklistLibrary; conflicts: string[] } {
+  const remoteById = new Map(remote.map(r => [r.id, r]))
+  const pendingDeleteIds = new Set((library.pendingDeletes ?? []).map(d => d.id))
+  const names = library.checklists.map(c => c.name)
+  const conflicts: string[] = []
+
+  const checklists = library.checklists.flatMap(local => {
+    const server = remoteById.get(local.id)
+    // A checklist in a live session is kept up to date by the session
+    if (local.id === liveId) return [local]
+    if (!server) {
+      if (local.revision === undefined) {
+        // Never synced. Drop an untouched placeholder when the server already has data.
+        const untouched = local.items.length === 0 && local.createdAt === local.updatedAt
+        return untouched && remote.length > 0 ? [] : [local]
+      }
+      // Deleted on the server; keep it only if there are local edits to recreate it with
+      return isDirty(local) ? [{ ...local, revision: undefined }] : []
+    }
+    if (server.revision === local.revision) return [local]
+    if (!isDirty(local)) return [fromServer(server)]
+
+    conflicts.push(local.name)
+    const copy = conflictCopy(local, names)
+    names.push(copy.name)
+    return [fromServer(server), copy]
+  })
+
+  const localIds = new Set(library.checklists.map(c => c.id))
+  remote
+    .filter(server => !localIds.has(server.id) && !pendingDeleteIds.has(server.id))
+    .forEach(server => checklists.push(fromServer(server)))
+
+  if (checklists.length === 0) {
+    return { library, conflicts }
+  }
+
+  const activeId = checklists.some(c => c.id === library.activeId) ? library.activeId : checklists[0].id
+  return { library: { ...library, activeId, checklists }, conflicts }
+}
+
+async function requestJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers }
+  })
+  const body = await res.json().catch(() => null)
+  return { status: res.status, body }
+}
+
+/**
+ * Keeps the localStorage library in sync with /api/checklists. localStorage
+ * stays the source of truth while offline; dirty checklists are pushed with
+ * their last-seen revision and the server answers 409 when someone else saved
+ * first. The checklist in a live session (`liveId`) is left to the session,
+ * which saves it itself.
+ */
+export function useServerSync(
+  library: ChecklistLibrary | null,
+  setLibrary: Dispatch<SetStateAction<ChecklistLibrary | null>>,
+  onNotice: (message: string) => void,
+  liveId: string | null = null
+): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>("idle")
+  const libraryRef = useRef(library)
+  const running = useRef(false)
+  const rerun = useRef(false)
+  const onNoticeRef = useRef(onNotice)
+  const liveIdRef = useRef(liveId)
+
+  libraryRef.current = library
+  onNoticeRef.current = onNotice
+  liveIdRef.current = liveId
+
+  const markSynced = useCallback((id: string, revision: number, pushedUpdatedAt: string) => {
+    setLibrary(prev => prev && {
+      ...prev,
+      checklists: prev.checklists.map(c => (c.id === id ? { ...c, revision, syncedAt: pushedUpdatedAt } : c))
+    })
+  }, [setLibrary])
+
+  const applyConflict = useCallback((local: Checklist, current: ServerChecklist) => {
+    setLibrary(prev => {
+      if (!prev) return prev
+      const names = prev.checklists.map(c => c.name)
+      const latest = prev.checklists.find(c => c.id === local.id) ?? local
+      return {
+        ...prev,
+        checklists: [
+          ...prev.checklists.map(c => (c.id === local.id ? fromServer(current) : c)),
+          conflictCopy(latest, names)
+        ]
+      }
+    })
+    onNoticeRef.current(`⚠️ "${local.name}" was changed elsewhere. Your edits were kept as a copy.`)
+  }, [setLibrary])
+
+  const pull = useCallback(async () => {
+    const { status: code, body } = await requestJson("/api/checklists")
+    if (code !== 200 || !Array.isArray(body?.checklists)) throw new Error("Could not load checklists")
+    const remote = (body.checklists as unknown[])
+      .map(raw => {
+        const checklist = sanitizeChecklist(raw)
+        return checklist && typeof (raw as any).revision === "number" ? checklist as ServerChecklist : null
+      })
+      .filter(Boolean) as ServerChecklist[]
+
+    const snapshot = libraryRef.current
+    const reconciled = snapshot ? reconcileWithServer(snapshot, remote, liveIdRef.current) : null
+    reconciled?.conflicts.forEach(name =>
+      onNoticeRef.current(`⚠️ "${name}" was changed elsewhere. Your edits were kept as a copy.`)
+    )
+    setLibrary(prev => prev && reconcileWithServer(prev, remote, liveIdRef.current).library)
+    return reconciled?.library ?? null
+  }, [setLibrary])
+
+  const pushDeletes = useCallback(async () => {
+    for (const pending of libraryRef.current?.pendingDeletes ?? []) {
+      const query = pending.revision !== undefined ? `?revision=${pending.revision}` : ""
+      const { status: code, body } = await requestJson(`/api/checklists/${encodeURIComponent(pending.id)}${query}`, { method: "DELETE" })
+      if (code === 409 && body?.current) {
+        // Someone edited it after we last synced; keep their version rather than deleting it
+        setLibrary(prev => prev && { ...prev, checklists: [...prev.checklists, fromServer(body.current)] })
+        onNoticeRef.current(`⚠️ "${body.current.name}" was changed elsewhere, so it was not deleted`)
+      } else if (code >= 500) {
+        throw new Error("Delete failed")
+      }
+      setLibrary(prev => prev && { ...prev, pendingDeletes: (prev.pendingDeletes ?? []).filter(d => d.id !== pending.id) })
+    }
+  }, [setLibrary])
+
+  const pushChecklist = useCallback(async (checklist: Checklist) => {
+    const { syncedAt: _syncedAt, ...payload } = checklist
+    const url = `/api/checklists/${encodeURIComponent(checklist.id)}`
+    let response = checklist.revision === undefined
+      ? await requestJson("/api/checklists", { method: "POST", body: JSON.stringify({ checklist: payload }) })
+      : await requestJson(url, { method: "PUT", body: JSON.stringify({ checklist: payload, revision: checklist.revision }) })
+
+    if (response.status === 404) {
+      // Deleted on the server while we were editing; recreate it
+      response = await requestJson("/api/checklists", { method: "POST", body: JSON.stringify({ checklist: payload }) })
+    }
+
+    if ((response.status === 200 || response.status === 201) && response.body?.checklist) {
+      markSynced(checklist.id, response.body.checklist.revision, checklist.updatedAt)
+    } else if (response.status === 409 && response.body?.current) {
+      applyConflict(checklist, response.body.current)
+    } else {
+      throw new Error(response.body?.error || "Sync failed")
+    }
+  }, [markSynced, applyConflict])
+
+  const sync = useCallback(async () => {
+    if (!libraryRef.current) return
+    if (running.current) {
+      rerun.current = true
+      return
+    }
+    running.current = true
+    setStatus("syncing")
+    try {
+      // Push from the reconciled copy so writes use the freshest revisions
+      const reconciled = await pull()
+      await pushDeletes()
+      for (const checklist of (reconciled?.checklists ?? []).filter(c => isDirty(c) && c.id !== liveIdRef.current)) {
+        await pushChecklist(checklist)
+      }
+      setStatus("synced")
+    } catch {
+      setStatus("offline")
+    } finally {
+      running.current = false
+      if (rerun.current) {
+        rerun.current = false
+        void sync()
+      }
+    }
+  }, [pull, pushDeletes, pushChecklist])
+
+  // Only local changes that still need pushing should schedule a sync;
+  // revision bookkeeping after a successful push must not loop back here.
+  const pendingKey = library
+    ? [
+        ...library.checklists.filter(c => isDirty(c) && c.id !== liveId).map(c => `${c.id}@${c.updatedAt}`),
+        ...(library.pendingDeletes ?? []).map(d => `-${d.id}`)
+      ].join(",")
+    : null
+  const hasLibrary = library !== null
+
+  useEffect(() => {
+    if (!hasLibrary) return
+    const timer = setTimeout(() => void sync(), SYNC_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [hasLibrary, pendingKey, sync])
+
+  useEffect(() => {
+    const handleOnline = () => void sync()
+    const interval = setInterval(() => void sync(), POLL_INTERVAL_MS)
+    window.addEventListener("online", handleOnline)
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [sync])
+
+  return status
+}
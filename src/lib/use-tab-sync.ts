@@ -0,0 +1,74 @@
+import { Dispatch, SetStateAction, useEffect, useRef } from "react"
+import { ChecklistLibrary } from "@/types/checklist"
+import { LIBRARY_KEY, sanitizeLibrary, saveLibrary } from "@/lib/library"
+import { libraryContent, mergeLibraries } from "@/lib/tab-sync"
+
+/**
+ * Saves the library to localStorage and keeps other open tabs in step with
+ * it. Another tab's save arrives as a storage event and is merged with this
+ * tab's edits instead of replacing them (see mergeLibraries). `onNotice`
+ * hears when the checklist on screen changed underneath, with details when
+ * both tabs edited the same thing. `onRemoteChange` gets the ids of every
+ * checklist another tab's save changed.
+ */
+export function useTabSync(
+  library: ChecklistLibrary | null,
+  setLibrary: Dispatch<SetStateAction<ChecklistLibrary | null>>,
+  onNotice: (message: string, details?: string[]) => void,
+  onRemoteChange: (checklistIds: string[]) => void
+) {
+  // What this tab last wrote or read; the common ancestor for merging
+  const base = useRef<ChecklistLibrary | null>(null)
+  // Skips writing back what storage already holds, so merged saves don't echo between tabs
+  const stored = useRef<{ content: string; activeId: string } | null>(null)
+  const libraryRef = useRef(library)
+  const onNoticeRef = useRef(onNotice)
+  const onRemoteChangeRef = useRef(onRemoteChange)
+
+  libraryRef.current = library
+  onNoticeRef.current = onNotice
+  onRemoteChangeRef.current = onRemoteChange
+
+  useEffect(() => {
+    if (!library) return
+    const content = libraryContent(library)
+    if (stored.current?.content === content && stored.current.activeId === library.activeId) return
+    saveLibrary(library)
+    stored.current = { content, activeId: library.activeId }
+    base.current = library
+  }, [library])
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== LIBRARY_KEY || !event.newValue) return
+      let remote: ChecklistLibrary | null
+      try {
+        remote = sanitizeLibrary(JSON.parse(event.newValue))
+      } catch {
+        return
+      }
+      const local = libraryRef.current
+      const previous = base.current
+      if (!remote || !local || !previous) return
+
+      const { library: merged, changed, conflicts } = mergeLibraries(previous, local, remote)
+      base.current = remote
+      stored.current = { content: libraryContent(remote), activeId: merged.activeId }
+      libraryRef.current = merged
+      // Edits made since this render are merged in too
+      setLibrary(prev => (prev === local ? merged : prev && mergeLibraries(previous, prev, remote).library))
+      if (changed.length > 0) onRemoteChangeRef.current(changed)
+
+      const active = local.checklists.find(c => c.id === local.activeId)
+      if (conflicts.length > 0) {
+        onNoticeRef.current("⚠️ Both tabs edited the same thing at once", conflicts)
+      } else if (active && !merged.checklists.some(c => c.id === active.id)) {
+        onNoticeRef.current(`⚠️ "${active.name}" was deleted in another tab`)
+      } else if (active && changed.includes(active.id)) {
+        onNoticeRef.current("↻ Updated from another tab")
+      }
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [setLibrary])
+}
@@ -1,10 +1,89 @@
+export type StepCondition = {
+  stepId: string  // a step with answer options
+  equals: string  // the answer that keeps this step in the run
+}
+
+// A fixed calendar day, or a number of days after the run starts
+export type DueDate =
+  | { kind: "date"; date: string }  // YYYY-MM-DD
+  | { kind: "offset"; days: number }
+
+// A placeholder like {{clientName}} that step titles and descriptions can use
+export type TemplateVariable = {
+  name: string  // what goes between the braces
+  label?: string  // shown on the form, e.g. "Client name"
+}
+
+// Per-step AI actions from the builder
+export type StepAiAction = "rewrite" | "expand" | "split" | "estimate"
+
 export type ChecklistItem = {
   id: string
   title: string
   description?: string
-  dependsOn: string[]
+  parentId?: string  // set on sub-steps; siblings keep their array order
+  dependsOn: string[]  // all of these must be done
+  anyOf?: string[][]  // each group needs at least one of its steps done
+  answers?: string[]  // answer options, e.g. ["Yes", "No"]; completing the step records one
+  conditions?: StepCondition[]  // step is skipped unless every condition's answer matches
+  assignee?: string
+  due?: DueDate
+  estimateHours?: number
   aiGenerated?: boolean
+  aiActions?: StepAiAction[]  // per-step AI actions that wrote this step, oldest first
+  createdAt: string
+}
+
+export type StepCompletion = {
+  completedAt: string
+  completedBy?: string
+  note?: string
+  answer?: string
+}
+
+export type RunnerState = Record<string, StepCompletion>  // item ID -> completion, absent when open
+
+export type RunEvent = {
+  id: string
+  itemId: string
+  type: "check" | "uncheck" | "note"
+  at: string
+  by?: string
+  note?: string
+  answer?: string
+}
+
+export type ChecklistRun = {
+  id: string
+  name: string
+  state: RunnerState
+  // Append-only log of every check, uncheck and note in this run
+  events: RunEvent[]
+  // Values for the checklist's template variables, absent until the run's form is filled in or skipped
+  values?: Record<string, string>
+  startedAt: string
+  archived?: boolean
+}
+
+export type Checklist = {
+  id: string
+  name: string
+  items: ChecklistItem[]
+  variables?: TemplateVariable[]
+  // Independent executions of this checklist, e.g. one per customer being onboarded
+  runs: ChecklistRun[]
+  activeRunId: string
+  archived?: boolean
   createdAt: string
+  updatedAt: string
+  // Server revision this copy is based on, and the updatedAt last pushed to the server
+  revision?: number
+  syncedAt?: string
 }
 
-export type RunnerState = Record<string, boolean>
+export type ChecklistLibrary = {
+  activeId: string
+  checklists: Checklist[]
+  // Checklists deleted locally while the server was unreachable
+  pendingDeletes?: { id: string; revision?: number }[]
+}